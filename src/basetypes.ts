@@ -1,3 +1,5 @@
+import { Action } from "./tstypes";
+
 export type Sort = {
   fieldId: string;
   direction: "asc" | "desc";
@@ -17,8 +19,15 @@ export type WhereCmpPlus = {
     | "nlike"
     | "in"
     | "nin"
-    | "not";
-  value: string | number | Date | number[];
+    | "not"
+    | "isNull"
+    | "isNotNull"
+    | "between"
+    | "startsWith"
+    | "endsWith"
+    | "ilike"
+    | "regex";
+  value?: string | number | Date | (string | number | Date)[]; // Unused by isNull/isNotNull
 };
 
 export type WhereBoolOr = {
@@ -45,6 +54,24 @@ export type QueryPlus = {
   groupFields?: string[];
 };
 
+export type UpsertOptions = {
+  conflictOn?: string[]; // Unique columns identifying an existing row
+  merge?: string[]; // Columns updated on conflict, defaults to all but conflictOn
+};
+
+// SQLite lock taken when the transaction begins
+export type TransactionMode = "deferred" | "immediate" | "exclusive";
+
+export type TransactionOptions = {
+  mode?: TransactionMode; // Defaults to deferred
+  retries?: number; // Retries when the database is busy or locked
+  retryDelay?: number; // Milliseconds before the first retry, doubled after each
+};
+
+export type WriteOptions = {
+  returning?: boolean; // Resolve with the persisted row instead of the id
+};
+
 export type FieldType =
   | "Text"
   | "Password"
@@ -86,9 +113,12 @@ export type FieldDef = {
   ordering?: number;
   defaultValue?: string;
   system?: boolean;
-  referenceName?: string;
+  description?: string;
+  referenceName?: string; // ReferenceManyToMany: junction table name
   options?: string[]; // Required for Enum type
   indexName?: string;
   foreignTable?: string; // Required for Reference types
+  onDelete?: Action; // ReferenceManyToOne: defaults to CASCADE
+  onUpdate?: Action; // ReferenceManyToOne: defaults to NO_ACTION
   indexedFields?: string[]; // Required for Reference types
 };
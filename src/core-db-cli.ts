@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 
+import { once } from "events";
 import * as fs from "fs";
 import * as path from "path";
 import * as readline from "readline";
@@ -7,12 +8,13 @@ import { CoreDB, FieldType } from "./core-db";
 import {
   importFromJSON,
   importFromSQL,
-  exportTables,
+  exportTablesStream,
   generateSQL,
   listTables,
   getTableDefinition,
-  dumpRecords,
+  streamRecords,
 } from "./core-db-utils";
+import { MigrationRunner } from "./core-db-migrations";
 
 // Command line argument parsing
 const args = process.argv.slice(2);
@@ -22,6 +24,10 @@ let importFile: string | undefined;
 let tablesToExport: string[] = [];
 let includeData = false;
 let exportFormat: "json" | "sql" = "json";
+let migrateCommand: "up" | "down" | "status" | undefined;
+let migrationsDir = "migrations";
+let migrateTarget: string | undefined;
+let migrateSteps = 1;
 
 for (let i = 0; i < args.length; i++) {
   switch (args[i]) {
@@ -42,6 +48,26 @@ for (let i = 0; i < args.length; i++) {
     case "-format":
       exportFormat = args[++i] as "json" | "sql";
       break;
+    case "-migrate":
+      migrateCommand = args[++i] as "up" | "down" | "status";
+      break;
+    case "-migrations":
+      migrationsDir = args[++i];
+      break;
+    case "-to":
+      migrateTarget = args[++i];
+      break;
+    case "-steps": {
+      const steps = args[++i];
+      migrateSteps = Number(steps);
+      if (!Number.isInteger(migrateSteps) || migrateSteps < 1) {
+        console.error(
+          `Invalid -steps value: ${steps}. Usage: -steps <positive integer>`
+        );
+        process.exit(1);
+      }
+      break;
+    }
   }
 }
 
@@ -67,15 +93,25 @@ async function main() {
     }
   }
 
-  // Export data if specified
-  if (tablesToExport.length > 0) {
-    const exportData = await exportTables(db, tablesToExport, includeData);
+  // Run migrations if specified
+  if (migrateCommand) {
+    await runMigrations(db, migrateCommand);
+    process.exit(0);
+  }
 
-    if (exportFormat === "json") {
-      console.log(JSON.stringify(exportData, null, 2));
-    } else {
-      console.log(generateSQL(db, exportData));
+  // Export data if specified, streaming the rows to stdout
+  if (tablesToExport.length > 0) {
+    for await (const chunk of exportTablesStream(
+      db,
+      tablesToExport,
+      includeData,
+      exportFormat
+    )) {
+      if (!process.stdout.write(chunk)) {
+        await once(process.stdout, "drain");
+      }
     }
+    process.stdout.write("\n");
 
     process.exit(0);
   }
@@ -83,6 +119,40 @@ async function main() {
   return db;
 }
 
+async function runMigrations(db: CoreDB, command: string) {
+  const runner = MigrationRunner.fromDirectory(db, migrationsDir);
+
+  switch (command) {
+    case "up": {
+      const applied = await runner.up(migrateTarget);
+      applied.forEach((m) => console.log(`Applied ${m.version}_${m.name}`));
+      if (applied.length === 0) console.log("Database is up to date");
+      break;
+    }
+    case "down": {
+      const reverted = await runner.down(migrateSteps);
+      reverted.forEach((m) => console.log(`Reverted ${m.version}_${m.name}`));
+      if (reverted.length === 0) console.log("No migrations to revert");
+      break;
+    }
+    case "status":
+      console.table(
+        (await runner.status()).map((s) => ({
+          version: s.version,
+          name: s.name,
+          applied: s.applied,
+          appliedAt: s.appliedAt ?? "",
+          checksum: s.checksumMismatch ? "MISMATCH" : "ok",
+        }))
+      );
+      break;
+    default:
+      throw new Error(
+        `Unknown migrate command: ${command}. Use up, down or status.`
+      );
+  }
+}
+
 // REPL input handler
 const handleInput = async (input: string, db: CoreDB) => {
   const [command, ...args] = input.split(" ");
@@ -136,7 +206,17 @@ const handleInput = async (input: string, db: CoreDB) => {
         break;
       }
 
-      console.table(dumpRecords(db, args[0]));
+      try {
+        for await (const record of streamRecords(db, args[0])) {
+          console.log(JSON.stringify(record));
+        }
+      } catch (error) {
+        console.error(
+          `Error dumping records: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
       break;
     case "/create-table":
       if (args.length === 0) {
@@ -304,13 +384,25 @@ const handleInput = async (input: string, db: CoreDB) => {
       }
       break;
 
+    case "/migrate":
+      try {
+        await runMigrations(db, args[0] || "status");
+      } catch (error) {
+        console.error(
+          `Error running migrations: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+      break;
+
     case "/help":
       console.log(`
 Available commands:
 
 /tables [format]                    List all tables (format: json, sql, default)
 /describe <table> [format]         Show table definition (format: json, sql, default)
-/dump <table>                      Dump table data
+/dump <table>                      Dump table data, one JSON row per line
 /create-table <name>               Create a new table
 /create-field <table> <field> <type> [index]  Add field to table (index: Default|Unique|Foreign)
 /join-table <parent> <child>       Create foreign key relationship between tables
@@ -318,6 +410,7 @@ Available commands:
 /drop-field <table> <field>        Drop a field from a table
 /rename-table <old> <new>          Rename a table
 /rename-field <table> <old> <new>  Rename a field in a table
+/migrate [up|down|status]          Run or inspect migrations from the migrations directory
 
 Field types:
 - Text (standard text)
@@ -0,0 +1,249 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { CoreDB, TableDefinition, TransactionOptions } from "./core-db";
+
+export const MIGRATIONS_TABLE = "_typepersist_migrations";
+
+export type Migration = {
+  version: string;
+  name: string;
+  checksum?: string; // Computed from the migration source when omitted
+  up: (db: CoreDB) => Promise<void>;
+  down: (db: CoreDB) => Promise<void>;
+};
+
+export type MigrationStatus = {
+  version: string;
+  name: string;
+  checksum: string;
+  applied: boolean;
+  appliedAt?: string;
+  checksumMismatch: boolean;
+};
+
+type AppliedMigration = {
+  id: number;
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+};
+
+const migrationsTableDefinition: TableDefinition = {
+  name: MIGRATIONS_TABLE,
+  implementation: "Static",
+  description: "Applied schema migrations",
+  fields: [
+    { name: "version", type: "Text", required: true, indexed: "Unique" },
+    { name: "name", type: "Text", required: true },
+    { name: "checksum", type: "Text", required: true },
+    { name: "appliedAt", type: "Datetime", required: true },
+  ],
+};
+
+// Foreign keys are only checked before each migration commits, so rebuilding
+// a referenced table does not cascade into the tables referencing it
+const MIGRATION_TRANSACTION: TransactionOptions = { foreignKeys: false };
+
+// Migration files are named <version>_<name>.ts (or .js), e.g. 001_create_users.ts
+const MIGRATION_FILE_PATTERN = /^(\d+)[_-](.+)\.(ts|js)$/;
+
+export function checksum(source: string): string {
+  return createHash("sha256").update(source).digest("hex");
+}
+
+function migrationChecksum(migration: Migration): string {
+  return (
+    migration.checksum ??
+    checksum(migration.up.toString() + migration.down.toString())
+  );
+}
+
+export function loadMigrations(directory: string): Migration[] {
+  if (!fs.existsSync(directory)) {
+    throw new Error(`Migrations directory '${directory}' does not exist`);
+  }
+
+  const files = fs
+    .readdirSync(directory)
+    .filter((file) => !file.endsWith(".d.ts"))
+    .filter((file) => MIGRATION_FILE_PATTERN.test(file))
+    .sort();
+
+  return files.map((file) => {
+    const [, version, name] = file.match(MIGRATION_FILE_PATTERN)!;
+    const filePath = path.resolve(directory, file);
+    const mod = require(filePath);
+    const up = mod.up ?? mod.default?.up;
+    const down = mod.down ?? mod.default?.down;
+
+    if (typeof up !== "function" || typeof down !== "function") {
+      throw new Error(
+        `Migration '${file}' must export both an 'up' and a 'down' function`
+      );
+    }
+
+    return {
+      version,
+      name,
+      checksum: checksum(fs.readFileSync(filePath, "utf8")),
+      up,
+      down,
+    };
+  });
+}
+
+export class MigrationRunner {
+  private db: CoreDB;
+  private migrations: Migration[];
+
+  constructor(db: CoreDB, migrations: Migration[]) {
+    this.db = db;
+    this.migrations = [...migrations].sort((a, b) =>
+      a.version.localeCompare(b.version, undefined, { numeric: true })
+    );
+
+    const versions = new Set<string>();
+    for (const migration of this.migrations) {
+      if (versions.has(migration.version)) {
+        throw new Error(`Duplicate migration version '${migration.version}'`);
+      }
+      versions.add(migration.version);
+    }
+  }
+
+  static fromDirectory(db: CoreDB, directory: string): MigrationRunner {
+    return new MigrationRunner(db, loadMigrations(directory));
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.db.schemaCreateOrUpdate(migrationsTableDefinition);
+  }
+
+  private async appliedMigrations(): Promise<AppliedMigration[]> {
+    await this.ensureMigrationsTable();
+    return (await this.db.query({
+      table: [{ table: MIGRATIONS_TABLE }],
+      sort: [{ fieldId: "id", direction: "asc" }],
+    })) as AppliedMigration[];
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.appliedMigrations();
+    const byVersion = new Map(applied.map((m) => [m.version, m]));
+
+    const result: MigrationStatus[] = this.migrations.map((migration) => {
+      const record = byVersion.get(migration.version);
+      const sum = migrationChecksum(migration);
+      return {
+        version: migration.version,
+        name: migration.name,
+        checksum: sum,
+        applied: !!record,
+        appliedAt: record?.appliedAt.toISOString(),
+        checksumMismatch: !!record && record.checksum !== sum,
+      };
+    });
+
+    // Applied migrations whose source is gone are still reported
+    for (const record of applied) {
+      if (!this.migrations.some((m) => m.version === record.version)) {
+        result.push({
+          version: record.version,
+          name: record.name,
+          checksum: record.checksum,
+          applied: true,
+          appliedAt: record.appliedAt.toISOString(),
+          checksumMismatch: false,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  // Refuse to run when an applied migration was edited after the fact
+  async verify(): Promise<void> {
+    const mismatches = (await this.status()).filter((s) => s.checksumMismatch);
+    if (mismatches.length > 0) {
+      throw new Error(
+        `Checksum mismatch for applied migration(s): ${mismatches
+          .map((m) => `${m.version}_${m.name}`)
+          .join(", ")}`
+      );
+    }
+  }
+
+  async up(targetVersion?: string): Promise<Migration[]> {
+    await this.verify();
+    const applied = new Set(
+      (await this.appliedMigrations()).map((m) => m.version)
+    );
+
+    if (
+      targetVersion !== undefined &&
+      !this.migrations.some((m) => m.version === targetVersion)
+    ) {
+      throw new Error(`Unknown migration version '${targetVersion}'`);
+    }
+
+    const executed: Migration[] = [];
+    for (const migration of this.migrations) {
+      if (!applied.has(migration.version)) {
+        try {
+          await this.db.transaction(async (tx) => {
+            await migration.up(tx);
+            await tx.insert(MIGRATIONS_TABLE, {
+              version: migration.version,
+              name: migration.name,
+              checksum: migrationChecksum(migration),
+              appliedAt: new Date(),
+            });
+          }, MIGRATION_TRANSACTION);
+        } catch (error) {
+          throw new Error(
+            `Migration ${migration.version}_${migration.name} failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+        executed.push(migration);
+      }
+      if (migration.version === targetVersion) break;
+    }
+    return executed;
+  }
+
+  async down(steps = 1): Promise<Migration[]> {
+    await this.verify();
+    const applied = await this.appliedMigrations();
+    const reverted: Migration[] = [];
+
+    for (const record of applied.reverse().slice(0, steps)) {
+      const migration = this.migrations.find(
+        (m) => m.version === record.version
+      );
+      if (!migration) {
+        throw new Error(
+          `Cannot revert migration ${record.version}_${record.name}: source not found`
+        );
+      }
+
+      try {
+        await this.db.transaction(async (tx) => {
+          await migration.down(tx);
+          await tx.delete(MIGRATIONS_TABLE, [record.id]);
+        }, MIGRATION_TRANSACTION);
+      } catch (error) {
+        throw new Error(
+          `Reverting migration ${migration.version}_${migration.name} failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+      reverted.push(migration);
+    }
+    return reverted;
+  }
+}
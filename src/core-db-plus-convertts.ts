@@ -3,6 +3,7 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as ts from "typescript";
+import { Action } from "./tstypes";
 
 // Interfaces to represent our type structure
 interface TypeField {
@@ -41,13 +42,25 @@ interface Relationship {
   fromField: string;
   toField: string;
   type: "oneToOne" | "oneToMany" | "manyToOne" | "manyToMany";
+  onDelete?: Action;
 }
 
 interface RelationshipType {
   type: "manyToOne" | "oneToMany" | "oneToOne" | "manyToMany";
   targetTable: string;
+  onDelete?: Action;
 }
 
+const ACTIONS: Action[] = ["CASCADE", "SET_NULL", "RESTRICT", "NO_ACTION"];
+
+// Cardinality argument of Relation<T, R, C, A>
+const CARDINALITIES: Record<string, RelationshipType["type"]> = {
+  "1_1": "oneToOne",
+  "1_n": "oneToMany",
+  n_1: "manyToOne",
+  n_n: "manyToMany",
+};
+
 // Function to process command line arguments
 function processArgs(): {
   filePaths: string[];
@@ -213,10 +226,24 @@ function parseTypeScript(filePath: string): {
       fieldType = "Text"; // Store foreign key as text
     } else if (fieldType.includes("<")) {
       const i = fieldType.indexOf("<");
-      const j = fieldType.indexOf(">");
-      const type = fieldType.slice(i + 1, j);
+      const j = fieldType.lastIndexOf(">");
+      // ManyToOne<User>, ManyToOne<number, User, "SET_NULL"> or
+      // Relation<number, User, "n_1", "SET_NULL">: the last type argument is
+      // the target, string literals are the cardinality and the action
+      const typeArgs = fieldType
+        .slice(i + 1, j)
+        .split(",")
+        .map((arg) => arg.trim());
+      const literals = typeArgs
+        .filter((arg) => /^["']/.test(arg))
+        .map((arg) => arg.replace(/["']/g, ""));
+      const type = typeArgs.filter((arg) => !/^["']/.test(arg)).pop() || "";
       let relation = fieldType.slice(0, i);
       relation = relation[0].toLowerCase() + relation.slice(1);
+      if (relation === "relation") {
+        const cardinality = literals.find((l) => l in CARDINALITIES);
+        relation = cardinality ? CARDINALITIES[cardinality] : relation;
+      }
       if (
         ["manyToOne", "oneToMany", "oneToOne", "manyToMany"].includes(relation)
       ) {
@@ -227,6 +254,9 @@ function parseTypeScript(filePath: string): {
             | "oneToOne"
             | "manyToMany",
           targetTable: type,
+          onDelete: literals.find((l) => ACTIONS.includes(l as Action)) as
+            | Action
+            | undefined,
         };
       }
 
@@ -270,6 +300,7 @@ function parseTypeScript(filePath: string): {
         fromField: fieldName,
         toField: "id",
         type: relationship.type,
+        onDelete: relationship.onDelete,
       });
     }
 
@@ -470,20 +501,24 @@ function convertToCoreDBPlusDefinitions(
   // really matter
 
   if (relationships.length > 0) {
-    const p = new Map<string, string>();
-    output += "// Create relationships\n";
+    const p = new Map<string, Relationship>();
     for (const rel of relationships) {
       const x = [rel.toTable.toLowerCase(), rel.fromTable.toLowerCase()]
         .sort()
         .join("_");
-      if (p.has(x)) {
+      // When both sides declare the relation, the one with an action wins
+      if (p.has(x) && (p.get(x)!.onDelete || !rel.onDelete)) {
         continue;
       }
-      p.set(x, x);
+      p.set(x, rel);
+    }
+    output += "// Create relationships\n";
+    for (const rel of p.values()) {
+      const options = rel.onDelete ? `, { onDelete: "${rel.onDelete}" }` : "";
       if (rel.type === "manyToOne") {
-        output += `await db.schemaConnect("${rel.toTable.toLowerCase()}", "${rel.fromTable.toLowerCase()}");\n`;
+        output += `await db.schemaConnect("${rel.toTable.toLowerCase()}", "${rel.fromTable.toLowerCase()}"${options});\n`;
       } else {
-        output += `await db.schemaConnect("${rel.fromTable.toLowerCase()}", "${rel.toTable.toLowerCase()}");\n`;
+        output += `await db.schemaConnect("${rel.fromTable.toLowerCase()}", "${rel.toTable.toLowerCase()}"${options});\n`;
       }
     }
   }
@@ -35,7 +35,7 @@ export class CoreDBPlus extends CoreDB {
     }
 
     // Handle comparison conditions
-    if ("field" in query && "cmp" in query && "value" in query) {
+    if ("field" in query && "cmp" in query) {
       // Don't add table prefix if it's already prefixed
       const field = query.field.includes(".")
         ? query.field
@@ -54,7 +54,7 @@ export class CoreDBPlus extends CoreDB {
     return query;
   }
 
-  async query(query: QueryPlus | Query) {
+  async query(query: QueryPlus | Query, variables: Record<string, any> = {}) {
     const q = query as any;
 
     // Transform the query if it's a QueryPlus
@@ -67,6 +67,6 @@ export class CoreDBPlus extends CoreDB {
       }
     }
 
-    return await super.query(q as Query);
+    return await super.query(q as Query, variables);
   }
 }
@@ -1,5 +1,10 @@
 import _ from "lodash";
-import { CoreDB, TableDefinition, FieldDef } from "./core-db";
+import { CATALOG_TABLE, CoreDB, TableDefinition, FieldDef } from "./core-db";
+import { MIGRATIONS_TABLE } from "./core-db-migrations";
+
+// Bookkeeping tables of CoreDB and the migration runner are neither listed nor
+// exported, since importing their rows would clash with the ones CoreDB writes
+const INTERNAL_TABLES = [CATALOG_TABLE, MIGRATIONS_TABLE];
 
 export interface TableData extends TableDefinition {
   data?: Record<string, any>[];
@@ -77,7 +82,10 @@ async function connectRelatedTables(
   for (const table of schema) {
     for (const field of table.fields) {
       if (field.type === "ReferenceManyToOne" && field.foreignTable) {
-        await db.schemaConnect(field.foreignTable, table.name);
+        await db.schemaConnect(field.foreignTable, table.name, {
+          onDelete: field.onDelete,
+          onUpdate: field.onUpdate,
+        });
       }
     }
   }
@@ -102,17 +110,15 @@ export async function importFromJSON(
     // Handle data-only import (object with table names as keys)
     if (isDataOnlyImport(data)) {
       for (const [tableName, records] of Object.entries(data)) {
-        for (const record of records) {
-          try {
-            await db.insert(tableName, record);
-          } catch (error) {
-            if (error instanceof Error) {
-              throw new Error(
-                `Failed to insert data into ${tableName}: ${error.message}`
-              );
-            }
-            throw error;
+        try {
+          await db.insertMany(tableName, records);
+        } catch (error) {
+          if (error instanceof Error) {
+            throw new Error(
+              `Failed to insert data into ${tableName}: ${error.message}`
+            );
           }
+          throw error;
         }
       }
       return;
@@ -175,17 +181,15 @@ export async function importFromJSON(
         await db.schemaCreateOrUpdate(tableDefinition);
 
         if (tableData && Array.isArray(tableData)) {
-          for (const row of tableData) {
-            try {
-              await db.insert(table.name, row);
-            } catch (error) {
-              if (error instanceof Error) {
-                throw new Error(
-                  `Failed to insert data into ${table.name}: ${error.message}`
-                );
-              }
-              throw error;
+          try {
+            await db.insertMany(table.name, tableData);
+          } catch (error) {
+            if (error instanceof Error) {
+              throw new Error(
+                `Failed to insert data into ${table.name}: ${error.message}`
+              );
             }
+            throw error;
           }
         }
       }
@@ -279,7 +283,7 @@ export async function exportTables(
     tables: [],
   };
 
-  for (const tableName of tableNames) {
+  for (const tableName of _.without(tableNames, ...INTERNAL_TABLES)) {
     const definition = await getTableDefinition(db, tableName);
     if (definition) {
       const tableExport: TableData = {
@@ -300,6 +304,41 @@ export async function exportTables(
   return result;
 }
 
+// Maps TypePersist field types to SQLite column types; definitions that were
+// introspected from the database already carry SQL types and are kept as-is
+function getSQLType(field: FieldDef): string {
+  switch (field.type) {
+    case "Text":
+    case "Password":
+    case "UUID":
+    case "Enum":
+    case "Datetime":
+    case "Time":
+    case "Date":
+    case "CreatedAt":
+    case "UpdatedAt":
+      return "TEXT";
+    case "Integer":
+    case "ID":
+    case "Boolean":
+    case "ReferenceOneToOne":
+    case "ReferenceManyToOne":
+      return "INTEGER";
+    case "Currency":
+    case "Float":
+    case "Double":
+    case "Decimal":
+      return "REAL";
+    case "Binary":
+      return "BLOB";
+    case "ReferenceOneToMany":
+    case "ReferenceManyToMany":
+      return ""; // These are handled through separate junction tables
+    default:
+      return field.type;
+  }
+}
+
 export function generateSQL(db: CoreDB, data: ImportExportData): string {
   if (!data) return "";
 
@@ -308,38 +347,12 @@ export function generateSQL(db: CoreDB, data: ImportExportData): string {
   // Handle table definitions
   if (data.tables) {
     for (const table of data.tables) {
-      // Create table
-      sql += `CREATE TABLE IF NOT EXISTS ${table.name} (\n`;
-      sql += "  id INTEGER PRIMARY KEY AUTOINCREMENT,\n";
-
-      // Add fields
-      const fieldDefs = table.fields.map((field: FieldDef) => {
-        let def = `  ${field.name} ${field.type}`;
-        if (field.required) def += " NOT NULL";
-        if (field.defaultValue !== undefined)
-          def += ` DEFAULT ${field.defaultValue}`;
-        if (field.indexed === "Unique") def += " UNIQUE";
-        return def;
-      });
-
-      sql += fieldDefs.join(",\n");
-      sql += "\n);\n\n";
-
-      // Create indexes
-      table.fields.forEach((field: FieldDef) => {
-        if (field.indexed === "Default" || field.indexed === "Foreign") {
-          sql += `CREATE INDEX IF NOT EXISTS idx_${table.name}_${field.name} ON ${table.name}(${field.name});\n`;
-        }
-      });
+      sql += generateTableSQL(table);
 
       // Insert data if present
       if (table.data) {
         table.data.forEach((row: Record<string, any>) => {
-          const fields = Object.keys(row).join(", ");
-          const values = Object.values(row)
-            .map((v) => (typeof v === "string" ? `'${v}'` : v))
-            .join(", ");
-          sql += `INSERT INTO ${table.name} (${fields}) VALUES (${values});\n`;
+          sql += generateInsertSQL(table.name, row);
         });
         sql += "\n";
       }
@@ -349,6 +362,102 @@ export function generateSQL(db: CoreDB, data: ImportExportData): string {
   return sql;
 }
 
+function generateTableSQL(table: TableDefinition): string {
+  // Create table
+  let sql = `CREATE TABLE IF NOT EXISTS ${table.name} (\n`;
+  sql += "  id INTEGER PRIMARY KEY AUTOINCREMENT,\n";
+
+  // Add fields
+  const fieldDefs = table.fields
+    .filter((field: FieldDef) => getSQLType(field) !== "")
+    .map((field: FieldDef) => {
+      let def = `  ${field.name} ${getSQLType(field)}`;
+      if (field.required) def += " NOT NULL";
+      if (field.defaultValue !== undefined)
+        def += ` DEFAULT ${field.defaultValue}`;
+      if (field.indexed === "Unique") def += " UNIQUE";
+      return def;
+    });
+
+  sql += fieldDefs.join(",\n");
+  sql += "\n);\n\n";
+
+  // Create indexes
+  table.fields.forEach((field: FieldDef) => {
+    if (field.indexed === "Default" || field.indexed === "Foreign") {
+      sql += `CREATE INDEX IF NOT EXISTS idx_${table.name}_${field.name} ON ${table.name}(${field.name});\n`;
+    }
+  });
+
+  return sql;
+}
+
+function generateInsertSQL(tableName: string, row: Record<string, any>) {
+  const fields = Object.keys(row).join(", ");
+  const values = Object.values(row)
+    .map((v) => (v instanceof Date ? v.toISOString() : v))
+    .map((v) => (typeof v === "string" ? `'${v}'` : v))
+    .join(", ");
+  return `INSERT INTO ${tableName} (${fields}) VALUES (${values});\n`;
+}
+
+function indent(text: string, spaces: number): string {
+  const padding = " ".repeat(spaces);
+  return text
+    .split("\n")
+    .map((line) => padding + line)
+    .join("\n");
+}
+
+// Same output as exportTables followed by JSON.stringify(data, null, 2) or
+// generateSQL, but yielded in pieces while the rows are streamed from the
+// database, so tables larger than memory can be exported
+export async function* exportTablesStream(
+  db: CoreDB,
+  tableNames: string[],
+  includeData: boolean,
+  format: "json" | "sql" = "json"
+): AsyncIterable<string> {
+  if (format === "json") yield '{\n  "tables": [';
+  let tableCount = 0;
+
+  for (const tableName of _.without(tableNames, ...INTERNAL_TABLES)) {
+    const definition = await getTableDefinition(db, tableName);
+    if (!definition) continue;
+
+    if (format === "sql") {
+      yield generateTableSQL(definition);
+      if (includeData) {
+        for await (const row of streamRecords(db, tableName)) {
+          yield generateInsertSQL(tableName, row);
+        }
+        yield "\n";
+      }
+      continue;
+    }
+
+    yield tableCount++ ? ",\n" : "\n";
+    const json = JSON.stringify(definition, null, 2);
+    if (!includeData) {
+      yield indent(json, 4);
+      continue;
+    }
+
+    // Reopen the definition object to append the rows
+    yield indent(`${json.slice(0, -2)},\n  "data": [`, 4);
+    let rowCount = 0;
+    for await (const row of streamRecords(db, tableName)) {
+      yield `${rowCount++ ? "," : ""}\n${indent(
+        JSON.stringify(row, null, 2),
+        8
+      )}`;
+    }
+    yield rowCount ? "\n      ]\n    }" : "]\n    }";
+  }
+
+  if (format === "json") yield tableCount ? "\n  ]\n}" : "]\n}";
+}
+
 // dump both structure & data
 export async function dumpTableStdout(db: CoreDB, tableName: string) {
   const struct = await getTableDefinition(db, tableName);
@@ -363,6 +472,14 @@ export async function dumpRecordsStdout(db: CoreDB, tableName: string) {
   return records;
 }
 
+// Rows of a table, read in chunks
+export function streamRecords(
+  db: CoreDB,
+  tableName: string
+): AsyncIterable<Record<string, any>> {
+  return db.stream({ table: [{ table: tableName }] });
+}
+
 export async function dumpRecords(
   db: CoreDB,
   tableName: string
@@ -396,11 +513,13 @@ export async function listTables(db: CoreDB): Promise<TableDefinition[]> {
       },
     });
 
-    return query.map((row) => ({
-      name: row.name,
-      implementation: "Dynamic",
-      fields: [], // We'll populate this in getTableDefinition
-    }));
+    return query
+      .filter((row) => !INTERNAL_TABLES.includes(row.name))
+      .map((row) => ({
+        name: row.name,
+        implementation: "Dynamic",
+        fields: [], // We'll populate this in getTableDefinition
+      }));
   } catch (error) {
     console.error("Error listing tables:", error);
     return [];
@@ -439,6 +558,12 @@ export async function getTableDefinition(
   tableName: string
 ): Promise<TableDefinition | undefined> {
   try {
+    // Tables created through CoreDB keep their full definition in the catalog
+    const cataloged = await db.schemaDescribe(tableName);
+    if (cataloged) {
+      return cataloged;
+    }
+
     const tableInfo = await db.query({
       table: [{ table: "sqlite_master" }],
       query: {
@@ -1,6 +1,11 @@
 import { Knex, knex } from "knex-fork";
 import _ from "lodash";
 import { FieldDef } from "./basetypes";
+import { Action } from "./tstypes";
+
+export type { FieldDef };
+
+export const CATALOG_TABLE = "_typepersist_catalog";
 
 export type Sort = {
   fieldId: string;
@@ -22,8 +27,15 @@ export type WhereCmp = {
     | "nlike"
     | "in"
     | "nin"
-    | "not";
-  right: string | number | Date | number[];
+    | "not"
+    | "isNull"
+    | "isNotNull"
+    | "between"
+    | "startsWith"
+    | "endsWith"
+    | "ilike"
+    | "regex";
+  right?: string | number | Date | (string | number | Date)[]; // Unused by isNull/isNotNull
   rightType: "Field" | "Array" | "Variable" | "SearchString" | "Value";
 };
 
@@ -40,16 +52,65 @@ export type Where = WhereBoolOr | WhereBoolAnd | WhereCmp;
 export type TableQuery = {
   table: string;
   query?: Where;
+  // Joined tables only, applied to the children of each parent row
+  sort?: Sort[];
+  limit?: number;
+  offset?: number;
+  count?: boolean; // Load the number of children instead of the rows
+  foreignKey?: string; // Join column instead of the '<table>Id' convention
+  parent?: boolean; // Embed the row referenced by the previous table instead
+};
+
+export type AggregateFunction =
+  | "count"
+  | "sum"
+  | "avg"
+  | "min"
+  | "max"
+  | "countDistinct";
+
+export type Aggregate = {
+  fn: AggregateFunction;
+  field?: string; // Omit for count(*)
+  as?: string; // Result column, defaults to "<fn>" or "<fn>_<field>"
 };
 
 export type Query = {
   table: TableQuery[]; // At least one table is required
-  field?: { [table: string]: string[] };
+  field?: { [table: string]: string[] }; // Columns per table, "col as alias"
   query?: Where;
   sort?: Sort[];
   page?: number;
   limit?: number;
+  aggregate?: Aggregate[];
   groupFields?: string[];
+  having?: Where; // Filters grouped rows by group fields and aggregate names
+};
+
+export type UpsertOptions = {
+  conflictOn?: string[]; // Unique columns identifying an existing row
+  merge?: string[]; // Columns updated on conflict, defaults to all but conflictOn and CreatedAt
+};
+
+export type WriteOptions = {
+  returning?: boolean; // Resolve with the persisted row instead of the id
+};
+
+// SQLite lock taken when the transaction begins: deferred takes it at the
+// first read or write, immediate takes the write lock right away and
+// exclusive also keeps readers out (in rollback journal mode)
+export type TransactionMode = "deferred" | "immediate" | "exclusive";
+
+export type TransactionOptions = {
+  mode?: TransactionMode; // SQLite only, defaults to deferred
+  retries?: number; // Retries when the database is busy or locked
+  retryDelay?: number; // Milliseconds before the first retry, doubled after each
+  foreignKeys?: boolean; // SQLite: false only checks foreign keys before commit
+};
+
+export type CursorPage = {
+  items: any[];
+  nextCursor: string | null; // Pass to paginate for the next page, null on the last one
 };
 
 export type FieldType =
@@ -81,8 +142,131 @@ export type TableDefinition = {
   description?: string;
   compoundIndexes?: { fields: string[]; type: "Unique" | "Default" }[];
   fields: FieldDef[];
+  timestampTriggers?: boolean; // SQLite: also stamp CreatedAt/UpdatedAt on raw writes
+};
+
+export type ForeignKeyOptions = {
+  onDelete?: Action; // Defaults to CASCADE
+  onUpdate?: Action; // Defaults to NO_ACTION
+};
+
+export type SchemaOperation =
+  | { type: "createTable"; table: string }
+  | { type: "addColumn"; table: string; field: string }
+  | { type: "alterColumn"; table: string; field: string; changes: string[] }
+  | {
+      type: "changeForeignKey";
+      table: string;
+      field: string;
+      foreignTable: string;
+    }
+  | { type: "rebuildTable"; table: string; reasons: string[] }
+  | {
+      type: "createJunctionTable";
+      table: string;
+      field: string;
+      junctionTable: string;
+      foreignTable: string;
+    }
+  | {
+      type: "addIndex";
+      table: string;
+      name: string;
+      fields: string[];
+      unique: boolean;
+    };
+
+export type SchemaWarning = {
+  table: string;
+  field?: string;
+  message: string;
+  dataLoss: boolean;
+};
+
+export type SchemaChangePlan = {
+  table: string;
+  operations: SchemaOperation[];
+  warnings: SchemaWarning[];
+  dataLoss: boolean; // True when any warning may destroy or alter existing data
+};
+
+export type SchemaChangeOptions = {
+  allowDataLoss?: boolean; // Set to false to refuse plans with data-loss warnings
+};
+
+// Table holding the links of a ReferenceManyToMany field
+type Junction = {
+  table: string;
+  sourceColumn: string; // References the table declaring the field
+  targetColumn: string; // References the field's foreignTable
 };
 
+// How a child level of a query is connected to its parent
+type TableJoin =
+  | { type: "foreignKey"; foreignKey: string }
+  | { type: "parent"; foreignKey: string } // Column of the previous table
+  | {
+      type: "junction";
+      table: string;
+      parentColumn: string;
+      childColumn: string;
+    };
+
+const NUMERIC_FIELD_TYPES: FieldType[] = [
+  "Integer",
+  "Currency",
+  "Float",
+  "Double",
+  "Decimal",
+];
+const TEXT_FIELD_TYPES: FieldType[] = ["Text", "Password"];
+const DECIMAL_FIELD_TYPES: FieldType[] = ["Currency", "Decimal"];
+const DATE_FIELD_TYPES: FieldType[] = [
+  "Datetime",
+  "Date",
+  "CreatedAt",
+  "UpdatedAt",
+];
+
+// Digits after the decimal point of Currency and Decimal columns
+const DECIMAL_SCALE = 2;
+
+// Parent ids per child query; stays below SQLite's default limit of 999
+// bound parameters together with the child filters
+const QUERY_BATCH_SIZE = 500;
+
+// Rows per multi-row INSERT of insertMany; with a few columns per row this
+// stays below SQLite's default limit of 999 bound parameters
+const INSERT_CHUNK_SIZE = 100;
+
+// Retries of transaction callbacks failing with SQLITE_BUSY or SQLITE_LOCKED,
+// starting after TRANSACTION_RETRY_DELAY ms with exponential backoff
+const TRANSACTION_RETRIES = 5;
+const TRANSACTION_RETRY_DELAY = 50;
+
+// Rows per query when streaming results
+const STREAM_CHUNK_SIZE = 1000;
+
+// Column alias carrying the parent id of each fetched child row
+const PARENT_KEY_ALIAS = "__parentId";
+
+// Column alias numbering the children of each parent for per-parent paging
+const ROW_NUMBER_ALIAS = "__rowNumber";
+
+// "SET_NULL" -> "SET NULL", as used in SQL and PRAGMA foreign_key_list
+const toSQLAction = (action: Action) => action.replace("_", " ");
+
+// Escapes LIKE wildcards for patterns matched with ESCAPE '!', which unlike a
+// backslash has no meaning in the string literals of any engine (MySQL)
+const escapeLike = (value: string) => value.replace(/[!%_]/g, "!$&");
+
+// SQLite reports concurrent writers with SQLITE_BUSY or SQLITE_LOCKED
+const isBusyError = (error: any) =>
+  /SQLITE_BUSY|SQLITE_LOCKED/.test(`${error?.code} ${error?.message}`);
+
+// Current time in the same ISO 8601 format as Date.toISOString()
+const SQLITE_NOW = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
 export class CoreDB {
   private knexInstance: Knex;
   private currentDB?: string;
@@ -226,7 +410,7 @@ export class CoreDB {
         column = table.integer(f.name);
         break;
       case "decimal":
-        column = table.decimal(f.name, f.precision || 10, 2);
+        column = table.decimal(f.name, f.precision || 10, DECIMAL_SCALE);
         break;
       case "float":
         column = table.float(f.name, f.precision || 8);
@@ -255,392 +439,921 @@ export class CoreDB {
     return column;
   }
 
-  async schemaCreateOrUpdate(tableDefinition: TableDefinition): Promise<void> {
-    const exists = await this.knexInstance.schema.hasTable(
-      tableDefinition.name
-    );
+  private addFieldColumn(
+    table: Knex.CreateTableBuilder,
+    field: FieldDef
+  ): Knex.ColumnBuilder {
+    let column: Knex.ColumnBuilder;
+    if (field.type === "ReferenceManyToOne" && field.foreignTable) {
+      // Handle foreign key reference directly during table creation. The
+      // reference chain returns a ReferencingColumnBuilder, so the column is
+      // kept apart from it.
+      column = table.integer(field.name).unsigned();
+      column
+        .references("id")
+        .inTable(field.foreignTable)
+        .onDelete(toSQLAction(field.onDelete ?? "CASCADE"))
+        .onUpdate(toSQLAction(field.onUpdate ?? "NO_ACTION"));
+    } else {
+      column = this.translateType(table, field);
+    }
 
-    if (!exists) {
-      await this.knexInstance.schema.createTable(
-        tableDefinition.name,
-        (table) => {
-          // Always create id as primary key
-          table.increments("id").primary();
-
-          for (const field of tableDefinition.fields) {
-            const knexType = this.getKnexFieldType(field);
-            let column;
-            if (knexType === "") continue; // Skip ReferenceOneToMany and ReferenceManyToMany as they're handled separately
-
-            // console.log("Field", field);
-            if (field.type === "ReferenceManyToOne" && field.foreignTable) {
-              // Handle foreign key reference directly during table creation
-              column = table
-                .integer(field.name)
-                .unsigned()
-                .references("id")
-                .inTable(field.foreignTable)
-                .onDelete("CASCADE");
-            } else {
-              column = this.translateType(table, field);
-            }
+    if (field.required) {
+      column.notNullable();
+    } else {
+      column.nullable();
+    }
 
-            if (field.required) {
-              column.notNullable();
-            } else {
-              column.nullable();
-            }
+    if (field.defaultValue !== undefined) {
+      column.defaultTo(field.defaultValue);
+    }
+    return column;
+  }
 
-            if (field.defaultValue !== undefined) {
-              column.defaultTo(field.defaultValue);
-            }
+  // CHECK constraint for Enum options and minimum/maximum limits. Limits apply
+  // to the value of numeric fields and to the length of text fields.
+  private getCheckConstraint(
+    tableName: string,
+    field: FieldDef
+  ): { name: string; predicate: string } | undefined {
+    const raw = (sql: string, bindings: any[]) =>
+      this.knexInstance.raw(sql, bindings).toQuery();
+    const conditions: string[] = [];
+
+    if (field.type === "Enum" && field.options && field.options.length > 0) {
+      conditions.push(
+        raw(`?? in (${field.options.map(() => "?").join(", ")})`, [
+          field.name,
+          ...field.options,
+        ])
+      );
+    } else if (NUMERIC_FIELD_TYPES.includes(field.type)) {
+      if (field.minimum !== undefined) {
+        conditions.push(raw("?? >= ?", [field.name, field.minimum]));
+      }
+      if (field.maximum !== undefined) {
+        conditions.push(raw("?? <= ?", [field.name, field.maximum]));
+      }
+    } else if (TEXT_FIELD_TYPES.includes(field.type)) {
+      const length =
+        this.knexInstance.client.config.client === "mysql"
+          ? "char_length"
+          : "length";
+      if (field.minimum !== undefined) {
+        conditions.push(raw(`${length}(??) >= ?`, [field.name, field.minimum]));
+      }
+      if (field.maximum !== undefined) {
+        conditions.push(raw(`${length}(??) <= ?`, [field.name, field.maximum]));
+      }
+    }
 
-            if (field.indexed) {
-              const indexName =
-                field.indexName || `idx_${tableDefinition.name}_${field.name}`;
-              if (field.indexed === "Unique") {
-                table.unique([field.name], indexName);
-              } else {
-                table.index([field.name], indexName);
-              }
-            }
-          }
-        }
+    if (conditions.length === 0) return undefined;
+    return {
+      name: `chk_${tableName}_${field.name}`,
+      predicate: conditions.join(" and "),
+    };
+  }
+
+  private addCheckConstraints(
+    table: Knex.CreateTableBuilder,
+    tableName: string,
+    fields: FieldDef[]
+  ) {
+    for (const field of fields) {
+      const check = this.getCheckConstraint(tableName, field);
+      if (check) {
+        table.check(check.predicate, undefined, check.name);
+      }
+    }
+  }
+
+  private async getIndexNames(tableName: string): Promise<string[]> {
+    if (this.knexInstance.client.config.client !== "sqlite3") {
+      // For other databases, we'll need to implement their specific index lookup
+      throw new Error(
+        "Index management not implemented for this database type"
       );
-    } else {
-      // Get existing columns
-      const existingColumns = await this.knexInstance(
-        tableDefinition.name
-      ).columnInfo();
-
-      // Get existing indexes based on database type
-      let indexNames: string[] = [];
-      if (this.knexInstance.client.config.client === "sqlite3") {
-        const existingIndexes = await this.knexInstance.raw(
-          `SELECT name FROM sqlite_master WHERE type='index' AND tbl_name=?`,
-          [tableDefinition.name]
-        );
-        indexNames = existingIndexes.map((idx: any) => idx.name);
-      } else {
-        // For other databases, we'll need to implement their specific index lookup
+    }
+    const existingIndexes = await this.knexInstance.raw(
+      `SELECT name FROM sqlite_master WHERE type='index' AND tbl_name=?`,
+      [tableName]
+    );
+    return existingIndexes.map((idx: any) => idx.name);
+  }
+
+  private async countRows(
+    tableName: string,
+    filter?: (qb: Knex.QueryBuilder) => Knex.QueryBuilder
+  ): Promise<number> {
+    let qb = this.knexInstance(tableName);
+    if (filter) qb = filter(qb);
+    const [{ count }] = await qb.count({ count: "*" });
+    return Number(count);
+  }
+
+  // SQLite reports knex column types by their storage names, e.g. decimal
+  // columns come back as float and uuid columns as char(36)
+  private columnTypeMatches(currentType: string, expectedType: string) {
+    const current = currentType.toLowerCase().split("(")[0].trim();
+    const aliases: Record<string, string[]> = {
+      decimal: ["decimal", "float"],
+      double: ["double", "float"],
+      uuid: ["uuid", "char"],
+      binary: ["binary", "blob"],
+    };
+    return (aliases[expectedType] || [expectedType]).includes(current);
+  }
+
+  // Boolean and numeric defaults are compared by value, as SQLite reports
+  // true as '1' and 2.5 as '2.50' when written that way
+  private normalizeDefault(value: any, type: FieldType): string | null {
+    if (value === undefined || value === null) return null;
+    let str = String(value);
+    // SQLite returns string defaults as quoted SQL literals
+    if (str.length >= 2 && str.startsWith("'") && str.endsWith("'")) {
+      str = str.slice(1, -1).replace(/''/g, "'");
+    }
+    if (type === "Boolean") {
+      if (["1", "true"].includes(str.toLowerCase())) return "true";
+      if (["0", "false"].includes(str.toLowerCase())) return "false";
+    } else if (NUMERIC_FIELD_TYPES.includes(type) && str.trim() !== "") {
+      const number = Number(str);
+      if (Number.isFinite(number)) return String(number);
+    }
+    return str;
+  }
+
+  async planSchemaChange(
+    tableDefinition: TableDefinition
+  ): Promise<SchemaChangePlan> {
+    const tableName = tableDefinition.name;
+    const plan: SchemaChangePlan = {
+      table: tableName,
+      operations: [],
+      warnings: [],
+      dataLoss: false,
+    };
+    const warn = (message: string, dataLoss: boolean, field?: string) => {
+      plan.warnings.push({ table: tableName, field, message, dataLoss });
+      plan.dataLoss = plan.dataLoss || dataLoss;
+    };
+
+    const fields = tableDefinition.fields.filter(
+      // ReferenceOneToMany and ReferenceManyToMany are handled separately
+      (f) => this.getKnexFieldType(f) !== ""
+    );
+    const compoundIndexes = (tableDefinition.compoundIndexes || []).map(
+      (index) => ({
+        name: `idx_${tableName}_${index.fields.join("_")}`,
+        fields: index.fields,
+        unique: index.type === "Unique",
+      })
+    );
+    const fieldIndexes = fields
+      .filter((f) => f.indexed)
+      .map((f) => ({
+        name: f.indexName || `idx_${tableName}_${f.name}`,
+        fields: [f.name],
+        unique: f.indexed === "Unique",
+      }));
+
+    for (const field of fields) {
+      if (
+        field.required &&
+        (field.onDelete === "SET_NULL" || field.onUpdate === "SET_NULL")
+      ) {
         throw new Error(
-          "Index management not implemented for this database type"
+          `Field '${field.name}' is required and cannot use SET_NULL as a foreign key action`
         );
       }
+    }
 
-      // Add or modify columns
-      for (const field of tableDefinition.fields) {
-        const knexType = this.getKnexFieldType(field);
-        if (knexType === "") continue; // Skip ReferenceOneToMany and ReferenceManyToMany
-
-        const existingColumn = existingColumns[field.name];
-        const expectedType = knexType.toUpperCase();
-
-        // console.log(
-        //   "Existing columns etc",
-        //   existingColumn,
-        //   existingColumns,
-        //   expectedType,
-        //   indexNames
-        // );
-
-        // Check if column exists and matches requirements
-        if (existingColumn) {
-          const knexType = this.getKnexFieldType(field);
-          const currentType = existingColumn.type.toLowerCase();
-          const expectedType = knexType.toLowerCase();
-          const currentNullable = existingColumn.nullable;
-          const expectedNullable = !field.required;
-          const currentDefault = existingColumn.defaultValue ?? null;
-          const expectedDefault = field.defaultValue ?? null;
-
-          // If everything matches, skip this column
-          if (
-            currentType === expectedType &&
-            currentNullable === expectedNullable &&
-            currentDefault === expectedDefault
-          ) {
-            // Check if foreign key constraint exists for ReferenceManyToOne
-            if (field.type === "ReferenceManyToOne" && field.foreignTable) {
-              const foreignKeys = await this.getForeignKeys(
-                tableDefinition.name
-              );
-              const hasForeignKey = foreignKeys.some(
-                (fk: any) =>
-                  fk.from === field.name &&
-                  fk.table === field.foreignTable &&
-                  fk.to === "id"
-              );
-
-              if (hasForeignKey) {
-                continue; // Skip if foreign key is already properly set up
-              }
-            } else {
-              continue; // Skip if all other properties match
-            }
-          }
+    const junctionOperations: SchemaOperation[] = [];
+    for (const field of tableDefinition.fields) {
+      if (field.type !== "ReferenceManyToMany") continue;
+      if (!field.foreignTable) {
+        throw new Error(
+          `Field '${field.name}' of type ReferenceManyToMany requires a foreignTable`
+        );
+      }
+      const junction = this.getJunction(tableName, field);
+      if (!(await this.knexInstance.schema.hasTable(junction.table))) {
+        junctionOperations.push({
+          type: "createJunctionTable",
+          table: tableName,
+          field: field.name,
+          junctionTable: junction.table,
+          foreignTable: field.foreignTable,
+        });
+      }
+    }
 
-          // If we reach here, something doesn't match, so we need to modify the column
-          // For SQLite, we need to recreate the table since it doesn't support ALTER COLUMN
-          if (this.knexInstance.client.config.client === "sqlite3") {
-            // Create a new table with the correct schema
-            const tempTableName = `${tableDefinition.name}_temp`;
-            await this.knexInstance.schema.createTable(
-              tempTableName,
-              (table) => {
-                table.increments("id").primary();
-                for (const f of tableDefinition.fields) {
-                  if (f.name === field.name) {
-                    // Add the column with new specifications
-                    let column;
-                    if (f.type === "ReferenceManyToOne" && f.foreignTable) {
-                      column = table
-                        .integer(f.name)
-                        .unsigned()
-                        .references("id")
-                        .inTable(f.foreignTable)
-                        .onDelete("CASCADE");
-                    } else {
-                      column = this.translateType(table, f);
-                    }
-                    if (f.required) column.notNullable();
-                    if (f.defaultValue !== undefined)
-                      column.defaultTo(f.defaultValue);
-                  } else {
-                    // Copy existing column specifications
-                    const existingCol = existingColumns[f.name];
-                    if (existingCol) {
-                      let column = this.translateType(table, f);
-                      if (!existingCol.nullable) column.notNullable();
-                      if (existingCol.defaultValue !== undefined) {
-                        column.defaultTo(existingCol.defaultValue);
-                      }
-                    }
-                  }
-                }
-              }
-            );
+    const exists = await this.knexInstance.schema.hasTable(tableName);
+    if (!exists) {
+      plan.operations.push({ type: "createTable", table: tableName });
+      plan.operations.push(...junctionOperations);
+      for (const index of [...fieldIndexes, ...compoundIndexes]) {
+        plan.operations.push({ type: "addIndex", table: tableName, ...index });
+      }
+      return plan;
+    }
 
-            // Copy data to temp table
-            await this.knexInstance.raw(
-              `INSERT INTO ${tempTableName} SELECT * FROM ${tableDefinition.name}`
-            );
+    const existingColumns = await this.knexInstance(tableName).columnInfo();
+    const indexNames = await this.getIndexNames(tableName);
+    const foreignKeys = await this.getForeignKeys(tableName);
+    const [{ sql: tableSql }] = await this.knexInstance.raw(
+      `SELECT sql FROM sqlite_master WHERE type='table' AND name=?`,
+      [tableName]
+    );
+    const columnOperations: SchemaOperation[] = [];
+    const rebuildReasons: string[] = [];
 
-            // Drop original table
-            await this.knexInstance.schema.dropTable(tableDefinition.name);
+    for (const field of fields) {
+      const existingColumn = existingColumns[field.name];
 
-            // Rename temp table to original name
-            await this.knexInstance.schema.renameTable(
-              tempTableName,
-              tableDefinition.name
-            );
-          } else {
-            // For other databases that support ALTER COLUMN
-            await this.knexInstance.schema.alterTable(
-              tableDefinition.name,
-              (table) => {
-                table.dropColumn(field.name);
-              }
+      if (!existingColumn) {
+        columnOperations.push({
+          type: "addColumn",
+          table: tableName,
+          field: field.name,
+        });
+        // SQLite cannot ALTER TABLE ADD COLUMN a NOT NULL column without a default
+        if (field.required && field.defaultValue === undefined) {
+          rebuildReasons.push(
+            `add required column '${field.name}' without a default`
+          );
+          const rows = await this.countRows(tableName);
+          if (rows > 0) {
+            warn(
+              `${rows} existing row(s) have no value for required column '${field.name}'; the rebuild will fail`,
+              false,
+              field.name
             );
           }
+        } else if (this.getCheckConstraint(tableName, field)) {
+          // Table constraints can only be created together with the table
+          rebuildReasons.push(
+            `add column '${field.name}' with a CHECK constraint`
+          );
         }
+        continue;
+      }
 
-        // Add column with correct specifications
-        await this.knexInstance.schema.alterTable(
-          tableDefinition.name,
-          (table) => {
-            let column;
-            if (field.type === "ReferenceManyToOne" && field.foreignTable) {
-              column = table
-                .integer(field.name)
-                .unsigned()
-                .references("id")
-                .inTable(field.foreignTable)
-                .onDelete("CASCADE");
-            } else {
-              column = this.translateType(table, field);
-            }
-
-            if (field.required) {
-              column.notNullable();
-            } else {
-              column.nullable();
-            }
-
-            if (field.defaultValue !== undefined) {
-              column.defaultTo(field.defaultValue);
-            }
+      const expectedType = this.getKnexFieldType(field);
+      const changes: string[] = [];
+      if (!this.columnTypeMatches(existingColumn.type, expectedType)) {
+        changes.push(`type ${existingColumn.type} -> ${expectedType}`);
+        const values = await this.countRows(tableName, (qb) =>
+          qb.whereNotNull(field.name)
+        );
+        if (values > 0) {
+          warn(
+            `${values} value(s) in '${field.name}' will be converted from ${existingColumn.type} to ${expectedType}`,
+            true,
+            field.name
+          );
+        }
+      }
+      if (existingColumn.nullable !== !field.required) {
+        changes.push(
+          field.required ? "nullable -> required" : "required -> nullable"
+        );
+        if (field.required) {
+          const nulls = await this.countRows(tableName, (qb) =>
+            qb.whereNull(field.name)
+          );
+          if (nulls > 0) {
+            warn(
+              `${nulls} row(s) have NULL in '${field.name}'; the rebuild will fail`,
+              false,
+              field.name
+            );
           }
+        }
+      }
+      const currentDefault = this.normalizeDefault(
+        existingColumn.defaultValue,
+        field.type
+      );
+      const expectedDefault = this.normalizeDefault(
+        field.defaultValue,
+        field.type
+      );
+      if (currentDefault !== expectedDefault) {
+        changes.push(`default ${currentDefault} -> ${expectedDefault}`);
+      }
+      const check = this.getCheckConstraint(tableName, field);
+      if (check && !tableSql.includes(check.predicate)) {
+        changes.push(`check ${check.predicate}`);
+        const violations = await this.countRows(tableName, (qb) =>
+          qb.whereRaw(`not (${check.predicate})`)
+        );
+        if (violations > 0) {
+          warn(
+            `${violations} row(s) violate the new CHECK constraint on '${field.name}'; the rebuild will fail`,
+            false,
+            field.name
+          );
+        }
+      } else if (
+        !check &&
+        tableSql.includes(`chk_${tableName}_${field.name}`)
+      ) {
+        changes.push("drop check");
+      }
+      if (changes.length > 0) {
+        columnOperations.push({
+          type: "alterColumn",
+          table: tableName,
+          field: field.name,
+          changes,
+        });
+        rebuildReasons.push(
+          `alter column '${field.name}' (${changes.join(", ")})`
         );
+      }
 
-        // Handle indexes based on database type
-        if (field.indexed) {
-          const indexName =
-            field.indexName || `idx_${tableDefinition.name}_${field.name}`;
-          if (!indexNames.includes(indexName)) {
-            if (this.knexInstance.client.config.client === "sqlite3") {
-              await this.knexInstance.schema.alterTable(
-                tableDefinition.name,
-                (table) => {
-                  if (field.indexed === "Unique") {
-                    table.unique([field.name], indexName);
-                  } else {
-                    table.index([field.name], indexName);
-                  }
-                }
-              );
-            } else {
-              // For other databases, we'll need to implement their specific index creation
-              throw new Error(
-                "Index management not implemented for this database type"
-              );
-            }
-          }
+      // Check if foreign key constraint exists for ReferenceManyToOne
+      if (field.type === "ReferenceManyToOne" && field.foreignTable) {
+        const foreignKey = foreignKeys.find(
+          (fk: any) =>
+            fk.from === field.name &&
+            fk.table === field.foreignTable &&
+            fk.to === "id"
+        );
+        const onDelete = toSQLAction(field.onDelete ?? "CASCADE");
+        const onUpdate = toSQLAction(field.onUpdate ?? "NO_ACTION");
+        if (
+          !foreignKey ||
+          foreignKey.on_delete !== onDelete ||
+          foreignKey.on_update !== onUpdate
+        ) {
+          columnOperations.push({
+            type: "changeForeignKey",
+            table: tableName,
+            field: field.name,
+            foreignTable: field.foreignTable,
+          });
+          rebuildReasons.push(
+            foreignKey
+              ? `change foreign key '${field.name}' actions (ON DELETE ${foreignKey.on_delete} -> ${onDelete}, ON UPDATE ${foreignKey.on_update} -> ${onUpdate})`
+              : `add foreign key '${field.name}' -> '${field.foreignTable}'`
+          );
         }
       }
     }
-    if (tableDefinition.compoundIndexes) {
-      for (const index of tableDefinition.compoundIndexes) {
-        const indexName = `idx_${tableDefinition.name}_${index.fields.join(
-          "_"
-        )}`;
 
-        if (this.knexInstance.client.config.client === "sqlite3") {
-          await this.knexInstance.schema.alterTable(
-            tableDefinition.name,
-            (t) => {
-              if (index.type === "Unique") {
-                t.unique(index.fields, indexName);
-              } else {
-                t.index(index.fields, indexName);
-              }
-            }
-          );
-        } else {
-          // For other databases, we'll need to implement their specific index creation
-          throw new Error(
-            "Index management not implemented for this database type"
+    plan.operations.push(...columnOperations);
+
+    // SQLite doesn't support ALTER COLUMN, so column changes rebuild the table
+    if (rebuildReasons.length > 0) {
+      plan.operations.push({
+        type: "rebuildTable",
+        table: tableName,
+        reasons: rebuildReasons,
+      });
+      if ("commit" in this.knexInstance) {
+        const referencing = await this.getReferencingTables(tableName);
+        if (referencing.length > 0) {
+          warn(
+            `Foreign keys cannot be disabled inside a transaction; rebuilding '${tableName}' may delete referencing rows in ${referencing
+              .map((t) => `'${t}'`)
+              .join(", ")}`,
+            true
           );
         }
       }
     }
-  }
 
-  async schemaDrop(name: string): Promise<void> {
-    await this.knexInstance.schema.dropTableIfExists(name);
-  }
+    plan.operations.push(...junctionOperations);
 
-  async schemaDropField(tableName: string, fieldName: string): Promise<void> {
-    await this.knexInstance.schema.alterTable(tableName, (table) => {
-      table.dropColumn(fieldName);
-    });
+    for (const index of [...fieldIndexes, ...compoundIndexes]) {
+      if (!indexNames.includes(index.name)) {
+        plan.operations.push({ type: "addIndex", table: tableName, ...index });
+      }
+    }
+
+    return plan;
   }
 
-  async schemaRename(oldName: string, newName: string): Promise<void> {
-    await this.knexInstance.schema.renameTable(oldName, newName);
+  private getJunction(tableName: string, field: FieldDef): Junction {
+    const sourceColumn = `${_.camelCase(tableName)}Id`;
+    let targetColumn = `${_.camelCase(field.foreignTable)}Id`;
+    // Self-referencing relations (e.g. users.friends) need distinct columns
+    if (targetColumn === sourceColumn) {
+      targetColumn = `related${_.upperFirst(targetColumn)}`;
+    }
+    return {
+      table: field.referenceName || `${tableName}_${field.name}`,
+      sourceColumn,
+      targetColumn,
+    };
   }
 
-  async schemaRenameField(
-    schema: string,
-    oldName: string,
-    newName: string
-  ): Promise<void> {
-    await this.knexInstance.schema.alterTable(schema, (table) => {
-      table.renameColumn(oldName, newName);
+  private async createJunctionTable(tableName: string, field: FieldDef) {
+    const junction = this.getJunction(tableName, field);
+    await this.knexInstance.schema.createTable(junction.table, (table) => {
+      table.increments("id").primary();
+      table
+        .integer(junction.sourceColumn)
+        .unsigned()
+        .notNullable()
+        .references("id")
+        .inTable(tableName)
+        .onDelete("CASCADE");
+      table
+        .integer(junction.targetColumn)
+        .unsigned()
+        .notNullable()
+        .references("id")
+        .inTable(field.foreignTable!)
+        .onDelete("CASCADE");
+      table.unique([junction.sourceColumn, junction.targetColumn]);
     });
   }
 
-  async schemaConnect(parentName: string, childName: string): Promise<void> {
-    const foreignKeyField = `${_.camelCase(parentName)}Id`;
-
-    // Check if tables exist
-    const parentExists = await this.knexInstance.schema.hasTable(parentName);
-    const childExists = await this.knexInstance.schema.hasTable(childName);
-
-    if (!parentExists) {
-      throw new Error(`Parent table '${parentName}' does not exist`);
-    }
-    if (!childExists) {
-      throw new Error(`Child table '${childName}' does not exist`);
+  // Looks up the junction of a ReferenceManyToMany field in the catalog
+  private async getFieldJunction(
+    tableName: string,
+    fieldName: string
+  ): Promise<Junction> {
+    const definition = await this.schemaDescribe(tableName);
+    const field = definition?.fields.find((f) => f.name === fieldName);
+    if (!field || field.type !== "ReferenceManyToMany") {
+      throw new Error(
+        `Field '${fieldName}' of table '${tableName}' is not a ReferenceManyToMany field`
+      );
     }
+    return this.getJunction(tableName, field);
+  }
 
-    // Check if foreign key column exists
-    const childColumns = await this.knexInstance(childName).columnInfo();
-
-    // Get existing foreign keys
-    const foreignKeys = await this.getForeignKeys(childName);
-    const hasForeignKey = foreignKeys.some(
-      (fk: any) =>
-        fk.from.toLowerCase() === foreignKeyField.toLowerCase() &&
-        fk.table === parentName &&
-        fk.to === "id"
+  private async getReferencingTables(tableName: string): Promise<string[]> {
+    const tables = await this.knexInstance.raw(
+      `SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'`
     );
-
-    // If either the column doesn't exist or it exists but without proper foreign key
-    if (
-      !Object.keys(childColumns).find(
-        (k: string) => k.toLowerCase() === foreignKeyField.toLowerCase()
-      ) ||
-      !hasForeignKey
-    ) {
-      // Drop existing column if it exists without proper foreign key
-      if (childColumns[foreignKeyField]) {
-        await this.knexInstance.schema.alterTable(childName, (table) => {
-          table.dropColumn(foreignKeyField);
-        });
+    const referencing: string[] = [];
+    for (const { name } of tables) {
+      const foreignKeys = await this.getForeignKeys(name);
+      if (foreignKeys.some((fk: any) => fk.table === tableName)) {
+        referencing.push(name);
       }
-
-      // Add column with foreign key constraint
-      await this.knexInstance.schema.alterTable(childName, (table) => {
-        table
-          .integer(foreignKeyField)
-          .unsigned()
-          .references("id")
-          .inTable(parentName)
-          .onDelete("CASCADE");
-      });
     }
+    return referencing;
   }
 
-  async getForeignKeys(tableName: string): Promise<any[]> {
-    // Check if we're using SQLite
-    if (this.knexInstance.client.config.client !== "sqlite3") {
+  async schemaCreateOrUpdate(
+    tableDefinition: TableDefinition,
+    options: SchemaChangeOptions = {}
+  ): Promise<SchemaChangePlan> {
+    const plan = await this.planSchemaChange(tableDefinition);
+
+    if (options.allowDataLoss === false && plan.dataLoss) {
       throw new Error(
-        "getForeignKeys is only implemented for SQLite databases"
+        `Schema change for '${tableDefinition.name}' would lose data:\n` +
+          plan.warnings
+            .filter((w) => w.dataLoss)
+            .map((w) => `- ${w.message}`)
+            .join("\n")
       );
     }
 
-    const result = await this.knexInstance.raw(
-      `PRAGMA foreign_key_list(${tableName})`
+    const fields = tableDefinition.fields.filter(
+      (f) => this.getKnexFieldType(f) !== ""
     );
-    return Array.isArray(result) ? result : [];
-  }
+    const rebuild = plan.operations.some((op) => op.type === "rebuildTable");
 
-  async startTransaction(autoCommit = false): Promise<CoreDB> {
-    if (this.knexInstance && "commit" in this.knexInstance) {
-      return this;
+    for (const operation of plan.operations) {
+      switch (operation.type) {
+        case "createTable":
+          await this.knexInstance.schema.createTable(
+            tableDefinition.name,
+            (table) => {
+              // Always create id as primary key
+              table.increments("id").primary();
+              for (const field of fields) {
+                this.addFieldColumn(table, field);
+              }
+              this.addCheckConstraints(table, tableDefinition.name, fields);
+            }
+          );
+          break;
+        case "addColumn":
+          // A rebuild creates missing columns together with the changed ones
+          if (rebuild) break;
+          await this.knexInstance.schema.alterTable(
+            tableDefinition.name,
+            (table) => {
+              const field = fields.find((f) => f.name === operation.field)!;
+              this.addFieldColumn(table, field);
+              this.addCheckConstraints(table, tableDefinition.name, [field]);
+            }
+          );
+          break;
+        case "rebuildTable":
+          await this.rebuildTable(tableDefinition.name, fields);
+          break;
+        case "createJunctionTable":
+          await this.createJunctionTable(
+            tableDefinition.name,
+            tableDefinition.fields.find((f) => f.name === operation.field)!
+          );
+          break;
+        case "addIndex":
+          await this.knexInstance.schema.alterTable(
+            tableDefinition.name,
+            (table) => {
+              if (operation.unique) {
+                table.unique(operation.fields, operation.name);
+              } else {
+                table.index(operation.fields, operation.name);
+              }
+            }
+          );
+          break;
+        // alterColumn and changeForeignKey are carried out by rebuildTable
+      }
     }
 
-    const tx = new CoreDB(await this.knexInstance.transaction());
-    tx.autoCommit = autoCommit;
-    tx.transactionOpen = true;
-    return tx;
-  }
+    await this.syncTimestampTriggers(tableDefinition);
 
-  async commitTransaction(): Promise<void> {
-    if (!this.knexInstance || !("commit" in this.knexInstance)) {
-      throw new Error("Not in a transaction");
-    }
-    this.transactionOpen = false;
-    await (this.knexInstance as Knex.Transaction).commit();
-  }
+    // Fields from earlier definitions that still exist as columns stay cataloged
+    const previous = await this.schemaDescribe(tableDefinition.name);
+    const columns = await this.knexInstance(tableDefinition.name).columnInfo();
+    const keptFields = (previous?.fields || []).filter(
+      (f) =>
+        !tableDefinition.fields.some((field) => field.name === f.name) &&
+        columns[f.name]
+    );
+    await this.writeCatalog({
+      ...tableDefinition,
+      fields: [...tableDefinition.fields, ...keptFields],
+    });
 
-  async rollbackTransaction(): Promise<void> {
-    if (!this.knexInstance || !("commit" in this.knexInstance)) {
-      throw new Error("Not in a transaction");
-    }
-    this.transactionOpen = false;
-    await (this.knexInstance as Knex.Transaction).rollback();
+    return plan;
+  }
+
+  // Keeps the SQLite triggers that stamp CreatedAt/UpdatedAt on raw writes in
+  // line with the definition; a rebuild drops them together with the table
+  private async syncTimestampTriggers(
+    tableDefinition: TableDefinition
+  ): Promise<void> {
+    if (this.knexInstance.client.config.client !== "sqlite3") return;
+
+    const tableName = tableDefinition.name;
+    const triggers = new Map<string, string>();
+    if (tableDefinition.timestampTriggers) {
+      for (const field of tableDefinition.fields) {
+        if (field.type !== "CreatedAt" && field.type !== "UpdatedAt") continue;
+        const stamp = `UPDATE "${tableName}" SET "${field.name}" = ${SQLITE_NOW} WHERE id = NEW.id;`;
+        triggers.set(
+          `trg_${tableName}_${field.name}_insert`,
+          `AFTER INSERT ON "${tableName}" FOR EACH ROW WHEN NEW."${field.name}" IS NULL BEGIN ${stamp} END`
+        );
+        if (field.type === "UpdatedAt") {
+          triggers.set(
+            `trg_${tableName}_${field.name}_update`,
+            `AFTER UPDATE ON "${tableName}" FOR EACH ROW WHEN NEW."${field.name}" IS OLD."${field.name}" BEGIN ${stamp} END`
+          );
+        }
+      }
+    }
+
+    const existing = await this.knexInstance.raw(
+      `SELECT name FROM sqlite_master WHERE type='trigger' AND tbl_name=? AND name LIKE ?`,
+      [tableName, `trg_${tableName}_%`]
+    );
+    for (const { name } of existing) {
+      if (!triggers.has(name)) {
+        await this.knexInstance.raw(`DROP TRIGGER IF EXISTS "${name}"`);
+      }
+    }
+    for (const [name, trigger] of triggers) {
+      await this.knexInstance.raw(
+        `CREATE TRIGGER IF NOT EXISTS "${name}" ${trigger}`
+      );
+    }
+  }
+
+  private async ensureCatalog(): Promise<void> {
+    if (await this.knexInstance.schema.hasTable(CATALOG_TABLE)) return;
+    await this.knexInstance.schema.createTable(CATALOG_TABLE, (table) => {
+      table.increments("id").primary();
+      table.text("tableName").notNullable().unique();
+      table.text("definition").notNullable();
+    });
+  }
+
+  private async writeCatalog(tableDefinition: TableDefinition): Promise<void> {
+    await this.ensureCatalog();
+    const definition = JSON.stringify(tableDefinition);
+    const existing = await this.knexInstance(CATALOG_TABLE)
+      .where("tableName", tableDefinition.name)
+      .first();
+    if (existing) {
+      await this.knexInstance(CATALOG_TABLE)
+        .where("id", existing.id)
+        .update({ definition });
+    } else {
+      await this.knexInstance(CATALOG_TABLE).insert({
+        tableName: tableDefinition.name,
+        definition,
+      });
+    }
+  }
+
+  private async updateCatalog(
+    tableName: string,
+    update: (tableDefinition: TableDefinition) => TableDefinition
+  ): Promise<void> {
+    const tableDefinition = await this.schemaDescribe(tableName);
+    if (tableDefinition) {
+      await this.writeCatalog(update(tableDefinition));
+    }
+  }
+
+  // Returns the definition as it was passed to schemaCreateOrUpdate, including
+  // TypePersist types, options, limits and descriptions
+  async schemaDescribe(
+    tableName: string
+  ): Promise<TableDefinition | undefined> {
+    if (!(await this.knexInstance.schema.hasTable(CATALOG_TABLE))) {
+      return undefined;
+    }
+    const row = await this.knexInstance(CATALOG_TABLE)
+      .where("tableName", tableName)
+      .first();
+    return row ? JSON.parse(row.definition) : undefined;
+  }
+
+  async schemaList(): Promise<TableDefinition[]> {
+    if (!(await this.knexInstance.schema.hasTable(CATALOG_TABLE))) {
+      return [];
+    }
+    const rows = await this.knexInstance(CATALOG_TABLE).orderBy("id");
+    return rows.map((row: any) => JSON.parse(row.definition));
+  }
+
+  // Recreates the table through `${name}_temp` following the SQLite procedure
+  // for schema changes: columns are copied by name, columns that are not part
+  // of the definition are kept as they are and existing indexes are restored.
+  private async rebuildTable(tableName: string, fields: FieldDef[]) {
+    const tempTableName = `${tableName}_temp`;
+    const existingColumns = await this.knexInstance(tableName).columnInfo();
+    const foreignKeys = await this.getForeignKeys(tableName);
+    const indexes = await this.knexInstance.raw(
+      `SELECT sql FROM sqlite_master WHERE type='index' AND tbl_name=? AND sql IS NOT NULL`,
+      [tableName]
+    );
+    const copiedColumns = Object.keys(existingColumns);
+    const preservedColumns = copiedColumns.filter(
+      (c) => c !== "id" && !fields.some((f) => f.name === c)
+    );
+
+    const rebuild = async (db: Knex | Knex.Transaction) => {
+      await db.schema.createTable(tempTableName, (table) => {
+        table.increments("id").primary();
+        for (const name of preservedColumns) {
+          const existing = existingColumns[name];
+          const column = table.specificType(name, existing.type);
+          const fk = foreignKeys.find((k: any) => k.from === name);
+          if (fk) {
+            column
+              .references(fk.to)
+              .inTable(fk.table)
+              .onDelete(fk.on_delete)
+              .onUpdate(fk.on_update);
+          }
+          if (!existing.nullable) column.notNullable();
+          if (existing.defaultValue !== null) {
+            column.defaultTo(db.raw(existing.defaultValue));
+          }
+        }
+        for (const field of fields) {
+          this.addFieldColumn(table, field);
+        }
+        this.addCheckConstraints(table, tableName, fields);
+      });
+
+      const columnList = copiedColumns.map((c) => `"${c}"`).join(", ");
+      await db.raw(
+        `INSERT INTO "${tempTableName}" (${columnList}) SELECT ${columnList} FROM "${tableName}"`
+      );
+      await db.schema.dropTable(tableName);
+      await db.schema.renameTable(tempTableName, tableName);
+      for (const index of indexes) {
+        await db.raw(index.sql);
+      }
+    };
+
+    if ("commit" in this.knexInstance) {
+      // Foreign keys cannot be turned off inside a transaction, so dropping a
+      // referenced table would delete the referencing rows
+      const [{ foreign_keys }] = await this.knexInstance.raw(
+        "PRAGMA foreign_keys"
+      );
+      const referencing = foreign_keys
+        ? await this.getReferencingTables(tableName)
+        : [];
+      if (referencing.length > 0) {
+        throw new Error(
+          `Cannot rebuild table '${tableName}' referenced by '${referencing.join(
+            "', '"
+          )}' inside a transaction with foreign keys enabled, use transaction() with foreignKeys: false`
+        );
+      }
+      await rebuild(this.knexInstance);
+      return;
+    }
+
+    // Dropping the original table would otherwise cascade into referencing tables
+    await this.knexInstance.raw("PRAGMA foreign_keys = OFF");
+    try {
+      await this.knexInstance.transaction((trx) => rebuild(trx));
+    } finally {
+      await this.knexInstance.raw("PRAGMA foreign_keys = ON");
+    }
+  }
+
+  async schemaDrop(name: string): Promise<void> {
+    // Junction tables of the table's ReferenceManyToMany fields go with it
+    const definition = await this.schemaDescribe(name);
+    for (const field of definition?.fields || []) {
+      if (field.type === "ReferenceManyToMany") {
+        await this.knexInstance.schema.dropTableIfExists(
+          this.getJunction(name, field).table
+        );
+      }
+    }
+
+    await this.knexInstance.schema.dropTableIfExists(name);
+    if (await this.knexInstance.schema.hasTable(CATALOG_TABLE)) {
+      await this.knexInstance(CATALOG_TABLE).where("tableName", name).delete();
+    }
+  }
+
+  async schemaDropField(tableName: string, fieldName: string): Promise<void> {
+    await this.knexInstance.schema.alterTable(tableName, (table) => {
+      table.dropColumn(fieldName);
+    });
+    await this.updateCatalog(tableName, (def) => ({
+      ...def,
+      fields: def.fields.filter((f) => f.name !== fieldName),
+      compoundIndexes: def.compoundIndexes?.filter(
+        (index) => !index.fields.includes(fieldName)
+      ),
+    }));
+  }
+
+  async schemaRename(oldName: string, newName: string): Promise<void> {
+    await this.knexInstance.schema.renameTable(oldName, newName);
+    if (!(await this.knexInstance.schema.hasTable(CATALOG_TABLE))) return;
+
+    await this.knexInstance(CATALOG_TABLE)
+      .where("tableName", oldName)
+      .update({ tableName: newName });
+    // Foreign keys in other tables follow the renamed table
+    for (const def of await this.schemaList()) {
+      const renamed = {
+        ...def,
+        name: def.name === oldName ? newName : def.name,
+        fields: def.fields.map((f) =>
+          f.foreignTable === oldName ? { ...f, foreignTable: newName } : f
+        ),
+      };
+      if (!_.isEqual(renamed, def)) {
+        await this.writeCatalog(renamed);
+      }
+    }
+  }
+
+  async schemaRenameField(
+    schema: string,
+    oldName: string,
+    newName: string
+  ): Promise<void> {
+    await this.knexInstance.schema.alterTable(schema, (table) => {
+      table.renameColumn(oldName, newName);
+    });
+    await this.updateCatalog(schema, (def) => ({
+      ...def,
+      fields: def.fields.map((f) =>
+        f.name === oldName ? { ...f, name: newName } : f
+      ),
+      compoundIndexes: def.compoundIndexes?.map((index) => ({
+        ...index,
+        fields: index.fields.map((f) => (f === oldName ? newName : f)),
+      })),
+    }));
+  }
+
+  async schemaConnect(
+    parentName: string,
+    childName: string,
+    options: ForeignKeyOptions = {}
+  ): Promise<void> {
+    const foreignKeyField = `${_.camelCase(parentName)}Id`;
+
+    // Check if tables exist
+    const parentExists = await this.knexInstance.schema.hasTable(parentName);
+    const childExists = await this.knexInstance.schema.hasTable(childName);
+
+    if (!parentExists) {
+      throw new Error(`Parent table '${parentName}' does not exist`);
+    }
+    if (!childExists) {
+      throw new Error(`Child table '${childName}' does not exist`);
+    }
+
+    // Check if foreign key column exists
+    const childColumns = await this.knexInstance(childName).columnInfo();
+    const columnName = Object.keys(childColumns).find(
+      (k: string) => k.toLowerCase() === foreignKeyField.toLowerCase()
+    );
+
+    // Get existing foreign keys
+    const foreignKeys = await this.getForeignKeys(childName);
+    const hasForeignKey = foreignKeys.some(
+      (fk: any) =>
+        fk.from.toLowerCase() === foreignKeyField.toLowerCase() &&
+        fk.table === parentName &&
+        fk.to === "id" &&
+        fk.on_delete === toSQLAction(options.onDelete ?? "CASCADE") &&
+        fk.on_update === toSQLAction(options.onUpdate ?? "NO_ACTION")
+    );
+
+    const definition = await this.schemaDescribe(childName);
+    const foreignKey: FieldDef = {
+      ...definition?.fields.find((f) => f.name === columnName),
+      name: columnName ?? foreignKeyField,
+      type: "ReferenceManyToOne",
+      foreignTable: parentName,
+      ..._.omitBy(options, _.isUndefined),
+    };
+
+    if (!columnName) {
+      // Add column with foreign key constraint
+      await this.knexInstance.schema.alterTable(childName, (table) => {
+        this.addFieldColumn(table, foreignKey);
+      });
+    } else if (!hasForeignKey) {
+      // SQLite can't alter constraints; rebuild the table keeping the values
+      const fields = (definition?.fields || []).filter(
+        (f) => f.name !== columnName && this.getKnexFieldType(f) !== ""
+      );
+      await this.rebuildTable(childName, [...fields, foreignKey]);
+      if (definition) await this.syncTimestampTriggers(definition);
+    }
+
+    await this.updateCatalog(childName, (def) =>
+      def.fields.some((f) => f.name === columnName)
+        ? {
+            ...def,
+            fields: def.fields.map((f) =>
+              f.name === columnName ? foreignKey : f
+            ),
+          }
+        : { ...def, fields: [...def.fields, foreignKey] }
+    );
+  }
+
+  async getForeignKeys(tableName: string): Promise<any[]> {
+    // Check if we're using SQLite
+    if (this.knexInstance.client.config.client !== "sqlite3") {
+      throw new Error(
+        "getForeignKeys is only implemented for SQLite databases"
+      );
+    }
+
+    const result = await this.knexInstance.raw(
+      `PRAGMA foreign_key_list(${tableName})`
+    );
+    return Array.isArray(result) ? result : [];
+  }
+
+  // Inside a transaction this starts a nested transaction on a SAVEPOINT:
+  // committing it releases the savepoint and rolling it back only undoes the
+  // work done since it was started
+  async startTransaction(autoCommit = false): Promise<CoreDB> {
+    const tx = new CoreDB(await this.knexInstance.transaction());
+    tx.autoCommit = autoCommit;
+    tx.transactionOpen = true;
+    return tx;
+  }
+
+  async commitTransaction(): Promise<void> {
+    if (!this.knexInstance || !("commit" in this.knexInstance)) {
+      throw new Error("Not in a transaction");
+    }
+    await (this.knexInstance as Knex.Transaction).commit();
+    this.transactionOpen = false;
+  }
+
+  async rollbackTransaction(): Promise<void> {
+    if (!this.knexInstance || !("commit" in this.knexInstance)) {
+      throw new Error("Not in a transaction");
+    }
+    await (this.knexInstance as Knex.Transaction).rollback();
+    this.transactionOpen = false;
   }
 
   protected transactionOpen = false;
@@ -652,28 +1365,295 @@ export class CoreDB {
     }
     if (this.transactionOpen) {
       if (this.autoCommit) {
-        this.commitTransaction();
+        await this.commitTransaction();
       } else {
-        this.rollbackTransaction();
+        await this.rollbackTransaction();
       }
     }
   }
 
+  // Runs the callback in a transaction that is committed when it resolves and
+  // rolled back when it throws. When SQLite is busy or locked the transaction
+  // is retried with backoff, so the callback must be safe to run again.
+  // Inside a transaction the callback runs on a savepoint without retries.
+  // foreignKeys: false turns SQLite foreign key enforcement off for the
+  // transaction, e.g. so schema changes can rebuild referenced tables, and
+  // checks all foreign keys before committing instead. It has no effect on
+  // nested transactions.
+  async transaction<T>(
+    callback: (tx: CoreDB) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
+    const nested = "commit" in this.knexInstance;
+    const retries = options.retries ?? TRANSACTION_RETRIES;
+    const retryDelay = options.retryDelay ?? TRANSACTION_RETRY_DELAY;
+    const deferForeignKeys =
+      options.foreignKeys === false &&
+      !nested &&
+      this.knexInstance.client.config.client === "sqlite3";
+
+    // The pragma is a no-op inside a transaction, so it is set around it
+    if (deferForeignKeys) {
+      await this.knexInstance.raw("PRAGMA foreign_keys = OFF");
+    }
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const tx = await this.startTransaction();
+        try {
+          if (!nested && options.mode && options.mode !== "deferred") {
+            await tx.lockTransaction(options.mode);
+          }
+          const result = await callback(tx);
+          if (deferForeignKeys) {
+            await tx.checkForeignKeys();
+          }
+          await tx.commitTransaction();
+          return result;
+        } catch (error) {
+          if (tx.transactionOpen) {
+            // A failing rollback must not hide the original error
+            await tx.rollbackTransaction().catch(() => undefined);
+          }
+          if (nested || attempt >= retries || !isBusyError(error)) {
+            throw error;
+          }
+          await new Promise((resolve) =>
+            setTimeout(resolve, retryDelay * 2 ** attempt)
+          );
+        }
+      }
+    } finally {
+      if (deferForeignKeys) {
+        await this.knexInstance.raw("PRAGMA foreign_keys = ON");
+      }
+    }
+  }
+
+  private async checkForeignKeys(): Promise<void> {
+    const violations = await this.knexInstance.raw("PRAGMA foreign_key_check");
+    if (violations.length > 0) {
+      throw new Error(
+        `Foreign key constraint failed in table(s) '${_.uniq(
+          violations.map((v: any) => v.table)
+        ).join("', '")}'`
+      );
+    }
+  }
+
+  // knex begins SQLite transactions with a deferred BEGIN. Restarting the
+  // still empty transaction with the requested mode takes the lock up front,
+  // so a busy database fails here instead of halfway through the callback.
+  private async lockTransaction(mode: TransactionMode): Promise<void> {
+    if (this.knexInstance.client.config.client !== "sqlite3") return;
+
+    await this.knexInstance.raw("COMMIT");
+    try {
+      await this.knexInstance.raw(`BEGIN ${mode.toUpperCase()}`);
+    } catch (error) {
+      // Leave a transaction open for knex to roll back
+      await this.knexInstance.raw("BEGIN");
+      throw error;
+    }
+  }
+
   async rawQuery(query: string, args: any[]): Promise<any> {
     return await this.knexInstance.raw(query, args);
   }
 
-  async insert(
+  private now(): Date | string {
+    const now = new Date();
+    // sqlite3 stores Date objects as numbers, so use the format insert writes
+    return this.knexInstance.client.config.client === "sqlite3"
+      ? now.toISOString()
+      : now;
+  }
+
+  // Stamps CreatedAt/UpdatedAt fields and validates the data against the
+  // cataloged table definition and the columns before it is written
+  private async prepareWrite(
     tableName: string,
+    data: Record<string, any>,
+    operation: "insert" | "update"
+  ): Promise<Record<string, any>> {
+    const tableDefinition = await this.schemaDescribe(tableName);
+    const columns = await this.knexInstance(tableName).columnInfo();
+    return this.validateColumns(
+      columns,
+      this.prepareRow(tableDefinition, data, operation)
+    );
+  }
+
+  private prepareRow(
+    tableDefinition: TableDefinition | undefined,
+    data: Record<string, any>,
+    operation: "insert" | "update"
+  ): Record<string, any> {
+    if (!tableDefinition) return data;
+
+    const prepared = { ...data };
+    for (const field of tableDefinition.fields) {
+      const stamp =
+        field.type === "UpdatedAt" ||
+        (field.type === "CreatedAt" && operation === "insert");
+      if (stamp && prepared[field.name] === undefined) {
+        prepared[field.name] = this.now();
+      }
+    }
+
+    this.validateConstraints(tableDefinition, prepared);
+    return prepared;
+  }
+
+  // Mirrors the CHECK constraints so violations are reported per field
+  private validateConstraints(
+    tableDefinition: TableDefinition,
     data: Record<string, any>
+  ): void {
+    for (const field of tableDefinition.fields) {
+      const value = data[field.name];
+      if (value === null || value === undefined) continue;
+
+      if (field.type === "Enum" && field.options && field.options.length > 0) {
+        if (!field.options.includes(value)) {
+          throw new Error(
+            `Field '${field.name}' must be one of: ${field.options.join(", ")}`
+          );
+        }
+      } else if (NUMERIC_FIELD_TYPES.includes(field.type)) {
+        if (field.minimum !== undefined && Number(value) < field.minimum) {
+          throw new Error(
+            `Field '${field.name}' must be at least ${field.minimum}`
+          );
+        }
+        if (field.maximum !== undefined && Number(value) > field.maximum) {
+          throw new Error(
+            `Field '${field.name}' must be at most ${field.maximum}`
+          );
+        }
+      } else if (TEXT_FIELD_TYPES.includes(field.type)) {
+        const length = String(value).length;
+        if (field.minimum !== undefined && length < field.minimum) {
+          throw new Error(
+            `Field '${field.name}' must be at least ${field.minimum} characters long`
+          );
+        }
+        if (field.maximum !== undefined && length > field.maximum) {
+          throw new Error(
+            `Field '${field.name}' must be at most ${field.maximum} characters long`
+          );
+        }
+      }
+    }
+  }
+
+  // Resolves with the id of the new row, or with the persisted row including
+  // defaults and CreatedAt stamps when called with { returning: true }
+  insert(
+    tableName: string,
+    data: Record<string, any>,
+    options?: { returning?: false }
+  ): Promise<number>;
+  insert(
+    tableName: string,
+    data: Record<string, any>,
+    options: { returning: true }
+  ): Promise<Record<string, any>>;
+  insert(
+    tableName: string,
+    data: Record<string, any>,
+    options: WriteOptions
+  ): Promise<number | Record<string, any>>;
+  async insert(
+    tableName: string,
+    data: Record<string, any>,
+    options: WriteOptions = {}
     // tx?: Knex.Transaction
-  ): Promise<number> {
+  ): Promise<number | Record<string, any>> {
     const queryBuilder = this.knexInstance;
+    const tableDefinition = await this.schemaDescribe(tableName);
+    data = this.prepareRow(tableDefinition, data, "insert");
 
     // Get column info for type validation
     const columns = await queryBuilder(tableName).columnInfo();
+    data = this.validateColumns(columns, data);
+
+    try {
+      if (!options.returning) {
+        const [id] = await queryBuilder(tableName).insert(data);
+        return id;
+      }
+      if (this.useReturning()) {
+        const [row] = await queryBuilder(tableName).insert(data).returning("*");
+        return this.hydrateRow(tableDefinition, row);
+      }
+      const [id] = await queryBuilder(tableName).insert(data);
+      return (await this.reselect(tableDefinition, tableName, id))!;
+    } catch (error: any) {
+      throw this.translateWriteError(error);
+    }
+  }
 
-    // Validate data types
+  // Inserts rows with one multi-row INSERT per chunk, reading the table
+  // definition and column info once. Runs in a transaction so that either
+  // all rows are inserted or none. Returns the number of inserted rows.
+  async insertMany(
+    tableName: string,
+    rows: Record<string, any>[],
+    options: { chunkSize?: number } = {}
+  ): Promise<number> {
+    const chunkSize = options.chunkSize ?? INSERT_CHUNK_SIZE;
+    if (chunkSize < 1) {
+      throw new Error("insertMany chunkSize must be at least 1");
+    }
+    if (rows.length === 0) return 0;
+
+    const tableDefinition = await this.schemaDescribe(tableName);
+    const columns = await this.knexInstance(tableName).columnInfo();
+    const prepared = rows.map((row) =>
+      this.validateColumns(
+        columns,
+        this.prepareRow(tableDefinition, row, "insert")
+      )
+    );
+
+    // Rows of a multi-row INSERT share their columns, so a chunk also ends
+    // where the columns change; missing columns would be NULL, not default
+    const chunks: Record<string, any>[][] = [];
+    let signature = "";
+    for (const row of prepared) {
+      const rowSignature = Object.keys(row).sort().join(",");
+      const chunk = chunks[chunks.length - 1];
+      if (chunk && chunk.length < chunkSize && rowSignature === signature) {
+        chunk.push(row);
+      } else {
+        chunks.push([row]);
+      }
+      signature = rowSignature;
+    }
+
+    const insertChunks = async (knex: Knex) => {
+      for (const chunk of chunks) {
+        await knex(tableName).insert(chunk);
+      }
+    };
+    try {
+      if ("commit" in this.knexInstance) {
+        await insertChunks(this.knexInstance);
+      } else {
+        await this.knexInstance.transaction(insertChunks);
+      }
+    } catch (error: any) {
+      throw this.translateWriteError(error);
+    }
+    return prepared.length;
+  }
+
+  // Checks and converts values by the type of their column
+  private validateColumns(
+    columns: Record<string, Knex.ColumnInfo>,
+    data: Record<string, any>
+  ): Record<string, any> {
+    data = { ...data };
     for (let [field, value] of Object.entries(data)) {
       const column = columns[field];
       if (column) {
@@ -762,47 +1742,216 @@ export class CoreDB {
         data[field] = value;
       }
     }
+    return data;
+  }
 
-    try {
-      const [id] = await queryBuilder(tableName).insert(data);
-      return id;
-    } catch (error: any) {
-      // Check if it's a foreign key constraint error
-      // Handle both Knex error format and raw SQLite error format
-      if (
-        (error.message &&
-          error.message.includes("FOREIGN KEY constraint failed")) ||
-        (error.errno === 19 && error.code === "SQLITE_CONSTRAINT")
-      ) {
-        throw new Error("Foreign key constraint failed");
-      }
-      throw error;
+  // Reports constraint violations of the database in a uniform way
+  private translateWriteError(error: any): Error {
+    const message: string = error.message || "";
+    const check = /CHECK constraint failed: (\w+)/.exec(message);
+    if (check) {
+      return new Error(`Check constraint '${check[1]}' failed`);
     }
+    // Check if it's a foreign key constraint error
+    // Handle both Knex error format and raw SQLite error format, where
+    // NOT NULL and UNIQUE violations share the errno and keep their message
+    if (
+      message.includes("FOREIGN KEY constraint failed") ||
+      (error.errno === 19 &&
+        error.code === "SQLITE_CONSTRAINT" &&
+        !message.includes("constraint failed"))
+    ) {
+      return new Error("Foreign key constraint failed");
+    }
+    return error;
   }
 
+  // Resolves with the persisted row, or null when no row has the id, when
+  // called with { returning: true }
+  update(
+    tableName: string,
+    id: number,
+    data: Record<string, any>,
+    options?: { returning?: false }
+  ): Promise<void>;
+  update(
+    tableName: string,
+    id: number,
+    data: Record<string, any>,
+    options: { returning: true }
+  ): Promise<Record<string, any> | null>;
+  update(
+    tableName: string,
+    id: number,
+    data: Record<string, any>,
+    options: WriteOptions
+  ): Promise<Record<string, any> | null | void>;
   async update(
     tableName: string,
     id: number,
-    data: Record<string, any>
+    data: Record<string, any>,
+    options: WriteOptions = {}
     // tx?: Knex.Transaction
-  ): Promise<void> {
+  ): Promise<Record<string, any> | null | void> {
     const queryBuilder = this.knexInstance;
-    await queryBuilder(tableName).where("id", id).update(data);
+    const tableDefinition = await this.schemaDescribe(tableName);
+    data = this.prepareRow(tableDefinition, data, "update");
+    // Same validation and serialization as insert, e.g. Dates to ISO strings
+    const columns = await queryBuilder(tableName).columnInfo();
+    data = this.validateColumns(columns, data);
+    const query = queryBuilder(tableName).where("id", id).update(data);
+
+    if (!options.returning) {
+      await query;
+    } else if (this.useReturning()) {
+      const [row] = await query.returning("*");
+      return row ? this.hydrateRow(tableDefinition, row) : null;
+    } else {
+      await query;
+      return await this.reselect(tableDefinition, tableName, id);
+    }
+  }
+
+  // RETURNING reports rows before AFTER triggers run, and SQLite stamps
+  // timestamps with AFTER triggers, so only PostgreSQL uses it
+  private useReturning(): boolean {
+    return this.knexInstance.client.config.client === "pg";
   }
 
+  // Reads a written row back where RETURNING is not used
+  private async reselect(
+    tableDefinition: TableDefinition | undefined,
+    tableName: string,
+    id: number
+  ): Promise<Record<string, any> | null> {
+    const row = await this.knexInstance(tableName).where("id", id).first();
+    return row ? this.hydrateRow(tableDefinition, row) : null;
+  }
+
+  // Converts stored values back to the types of their fields: 0/1 to
+  // booleans, date strings to Dates, Currency and Decimal to strings of the
+  // stored value, never rounded, and other numeric strings to numbers
+  private hydrateRow(
+    tableDefinition: TableDefinition | undefined,
+    row: Record<string, any>
+  ): Record<string, any> {
+    if (!tableDefinition) return row;
+
+    const hydrated = { ...row };
+    for (const field of tableDefinition.fields) {
+      const value = hydrated[field.name];
+      if (value === null || value === undefined) continue;
+
+      if (field.type === "Boolean") {
+        hydrated[field.name] =
+          typeof value === "boolean" ? value : !!Number(value);
+      } else if (DATE_FIELD_TYPES.includes(field.type)) {
+        hydrated[field.name] = value instanceof Date ? value : new Date(value);
+      } else if (DECIMAL_FIELD_TYPES.includes(field.type)) {
+        hydrated[field.name] = String(value);
+      } else if (NUMERIC_FIELD_TYPES.includes(field.type)) {
+        hydrated[field.name] = Number(value);
+      }
+    }
+    return hydrated;
+  }
+
+  // Inserts the row, or updates the existing row with the same values in the
+  // conflictOn columns (INSERT ... ON CONFLICT DO UPDATE, ON DUPLICATE KEY
+  // UPDATE on MySQL). conflictOn must be the id or a unique index of the table
+  // definition; without it the first of those with values in the data is used.
+  // Returns the id of the inserted or updated row.
   async upsert(
     tableName: string,
-    data: Record<string, any>
+    data: Record<string, any>,
+    options: UpsertOptions = {}
     // tx?: Knex.Transaction
   ): Promise<number> {
-    const queryBuilder = this.knexInstance;
-    if (data.id) {
-      await queryBuilder(tableName).where("id", data.id).update(data);
-      return data.id;
-    } else {
-      const [id] = await queryBuilder(tableName).insert(data);
-      return id;
+    const tableDefinition = await this.schemaDescribe(tableName);
+    const uniqueKeys = [["id"], ...this.getUniqueKeys(tableDefinition)];
+    const conflictOn =
+      options.conflictOn ??
+      uniqueKeys.find((key) => key.every((field) => data[field] != null));
+    if (!conflictOn) {
+      return await this.insert(tableName, data);
+    }
+    if (!uniqueKeys.some((key) => _.xor(key, conflictOn).length === 0)) {
+      const fields = conflictOn.join(", ");
+      throw new Error(
+        `Table '${tableName}' has no unique index on (${fields})`
+      );
+    }
+    // The row is read back by these values, which must identify it
+    const missing = conflictOn.filter((field) => data[field] == null);
+    if (missing.length > 0) {
+      const fields = missing.join(", ");
+      throw new Error(
+        `Upsert of '${tableName}' requires values for (${fields})`
+      );
     }
+
+    const columns = await this.knexInstance(tableName).columnInfo();
+    const row = this.validateColumns(
+      columns,
+      this.prepareRow(tableDefinition, data, "insert")
+    );
+    // Existing rows keep their creation time
+    const createdAt = (tableDefinition?.fields || [])
+      .filter((f) => f.type === "CreatedAt")
+      .map((f) => f.name);
+    const merge =
+      options.merge ??
+      Object.keys(row).filter(
+        (column) => !conflictOn.includes(column) && !createdAt.includes(column)
+      );
+
+    // A row missing required columns cannot be inserted, so it only updates
+    // the existing row, e.g. upsert("users", { id, name })
+    const partial = Object.entries(columns).some(
+      ([column, info]) =>
+        column !== "id" &&
+        !info.nullable &&
+        info.defaultValue === null &&
+        row[column] === undefined
+    );
+    if (partial) {
+      const existing = await this.knexInstance(tableName)
+        .first("id")
+        .where(_.pick(row, conflictOn));
+      if (existing) {
+        if (merge.length > 0) {
+          await this.update(tableName, existing.id, _.pick(row, merge));
+        }
+        return existing.id;
+      }
+    }
+
+    const insert = this.knexInstance(tableName)
+      .insert(row)
+      .onConflict(conflictOn);
+    try {
+      await (merge.length > 0 ? insert.merge(merge) : insert.ignore());
+    } catch (error: any) {
+      throw this.translateWriteError(error);
+    }
+
+    const [{ id }] = await this.knexInstance(tableName)
+      .select("id")
+      .where(_.pick(row, conflictOn));
+    return id;
+  }
+
+  // Columns of the unique field and compound indexes of a table definition
+  private getUniqueKeys(tableDefinition?: TableDefinition): string[][] {
+    if (!tableDefinition) return [];
+    return [
+      ...tableDefinition.fields
+        .filter((f) => f.indexed === "Unique")
+        .map((f) => [f.name]),
+      ...(tableDefinition.compoundIndexes || [])
+        .filter((index) => index.type === "Unique")
+        .map((index) => index.fields),
+    ];
   }
 
   async delete(
@@ -814,39 +1963,246 @@ export class CoreDB {
     await queryBuilder(tableName).whereIn("id", ids).delete();
   }
 
-  // Query builder method that accepts Query type
-  private async validateForeignKeyConnection(
-    tables: TableQuery[]
+  // Updates the rows matching the condition, returns how many were updated
+  async updateWhere(
+    tableName: string,
+    where: Where,
+    data: Record<string, any>,
+    variables: Record<string, any> = {}
+  ): Promise<number> {
+    data = await this.prepareWrite(tableName, data, "update");
+    const query = this.buildWhereClause(
+      this.knexInstance(tableName),
+      this.addTablePrefixToWhere(
+        this.bindVariables(where, variables),
+        tableName
+      )
+    );
+    try {
+      return await query.update(data);
+    } catch (error: any) {
+      throw this.translateWriteError(error);
+    }
+  }
+
+  // Deletes the rows matching the condition, returns how many were deleted
+  async deleteWhere(
+    tableName: string,
+    where: Where,
+    variables: Record<string, any> = {}
+  ): Promise<number> {
+    const query = this.buildWhereClause(
+      this.knexInstance(tableName),
+      this.addTablePrefixToWhere(
+        this.bindVariables(where, variables),
+        tableName
+      )
+    );
+    try {
+      return await query.delete();
+    } catch (error: any) {
+      throw this.translateWriteError(error);
+    }
+  }
+
+  async link(
+    tableName: string,
+    id: number,
+    fieldName: string,
+    relatedIds: number | number[]
   ): Promise<void> {
-    if (tables.length <= 1) return;
+    const junction = await this.getFieldJunction(tableName, fieldName);
+    const ids = Array.isArray(relatedIds) ? relatedIds : [relatedIds];
+    if (ids.length === 0) return;
+
+    await this.knexInstance(junction.table)
+      .insert(
+        ids.map((relatedId) => ({
+          [junction.sourceColumn]: id,
+          [junction.targetColumn]: relatedId,
+        }))
+      )
+      .onConflict([junction.sourceColumn, junction.targetColumn])
+      .ignore();
+  }
 
-    for (let i = 1; i < tables.length; i++) {
-      const parentTable = tables[i - 1].table;
-      const childTable = tables[i].table;
+  // Removes the given links, or all links of the record when relatedIds is omitted
+  async unlink(
+    tableName: string,
+    id: number,
+    fieldName: string,
+    relatedIds?: number | number[]
+  ): Promise<void> {
+    const junction = await this.getFieldJunction(tableName, fieldName);
+    let query = this.knexInstance(junction.table).where(
+      junction.sourceColumn,
+      id
+    );
+    if (relatedIds !== undefined) {
+      query = query.whereIn(
+        junction.targetColumn,
+        Array.isArray(relatedIds) ? relatedIds : [relatedIds]
+      );
+    }
+    await query.delete();
+  }
+
+  // Finds the column of a table referencing another table: the '<table>Id'
+  // naming convention, a ReferenceManyToOne field or a real foreign key
+  private async findForeignKey(
+    tableName: string,
+    referencedTable: string
+  ): Promise<string | undefined> {
+    const columns = await this.knexInstance(tableName).columnInfo();
+    const conventionalKey = `${_.camelCase(referencedTable)}Id`;
+    if (columns[conventionalKey]) {
+      return conventionalKey;
+    }
+
+    const field = (await this.schemaDescribe(tableName))?.fields.find(
+      (f) =>
+        f.type === "ReferenceManyToOne" &&
+        f.foreignTable === referencedTable &&
+        columns[f.name]
+    );
+    if (field) {
+      return field.name;
+    }
+
+    if (this.knexInstance.client.config.client === "sqlite3") {
+      const foreignKey = (await this.getForeignKeys(tableName)).find(
+        (fk) => fk.table === referencedTable
+      );
+      return foreignKey?.from;
+    }
+    return undefined;
+  }
 
-      // Check if foreign key exists
-      const childColumns = await this.knexInstance(childTable).columnInfo();
-      const expectedForeignKey = `${_.camelCase(parentTable)}Id`;
+  // Checks an explicit join column
+  private async assertJoinColumn(
+    tableName: string,
+    column: string
+  ): Promise<void> {
+    const columns = await this.knexInstance(tableName).columnInfo();
+    if (!columns[column]) {
+      throw new Error(
+        `Join column '${column}' not found in table '${tableName}'`
+      );
+    }
+  }
 
-      if (!childColumns[expectedForeignKey]) {
+  // Finds how a table connects to the previous one. A child table has a
+  // foreign key to it or a ReferenceManyToMany junction declared on either
+  // side; a parent table is referenced by a foreign key of the previous table.
+  private async resolveJoin(
+    previousTable: string,
+    level: TableQuery
+  ): Promise<TableJoin> {
+    if (level.parent) {
+      const foreignKey =
+        level.foreignKey ??
+        (await this.findForeignKey(previousTable, level.table));
+      if (!foreignKey) {
         throw new Error(
-          `No foreign key connection found: Table '${childTable}' must have a foreign key '${expectedForeignKey}' referencing '${parentTable}'`
+          `No foreign key connection found: Table '${previousTable}' has no foreign key referencing '${level.table}'`
         );
       }
+      await this.assertJoinColumn(previousTable, foreignKey);
+      return { type: "parent", foreignKey };
+    }
+
+    const parentTable = previousTable;
+    const childTable = level.table;
+    if (level.foreignKey) {
+      await this.assertJoinColumn(childTable, level.foreignKey);
+      return { type: "foreignKey", foreignKey: level.foreignKey };
     }
+    const foreignKey = await this.findForeignKey(childTable, parentTable);
+    if (foreignKey) {
+      return { type: "foreignKey", foreignKey };
+    }
+
+    const isManyToMany = (field: FieldDef, foreignTable: string) =>
+      field.type === "ReferenceManyToMany" &&
+      field.foreignTable === foreignTable;
+    const parentField = (await this.schemaDescribe(parentTable))?.fields.find(
+      (f) => isManyToMany(f, childTable)
+    );
+    if (parentField) {
+      const junction = this.getJunction(parentTable, parentField);
+      return {
+        type: "junction",
+        table: junction.table,
+        parentColumn: junction.sourceColumn,
+        childColumn: junction.targetColumn,
+      };
+    }
+    const childField = (await this.schemaDescribe(childTable))?.fields.find(
+      (f) => isManyToMany(f, parentTable)
+    );
+    if (childField) {
+      const junction = this.getJunction(childTable, childField);
+      return {
+        type: "junction",
+        table: junction.table,
+        parentColumn: junction.targetColumn,
+        childColumn: junction.sourceColumn,
+      };
+    }
+
+    const expectedForeignKey = `${_.camelCase(parentTable)}Id`;
+    throw new Error(
+      `No foreign key connection found: Table '${childTable}' must have a foreign key '${expectedForeignKey}' referencing '${parentTable}'`
+    );
   }
 
-  async query(query: Query): Promise<any[]> {
+  // Query builder method that accepts Query type
+  private async resolveJoins(tables: TableQuery[]): Promise<TableJoin[]> {
+    const joins: TableJoin[] = [];
+    for (let i = 1; i < tables.length; i++) {
+      joins[i] = await this.resolveJoin(tables[i - 1].table, tables[i]);
+    }
+    return joins;
+  }
+
+  async query(
+    query: Query,
+    variables: Record<string, any> = {}
+  ): Promise<any[]> {
+    return (await this.queryRows(query, variables)).rows;
+  }
+
+  // Runs a query, also returning the root rows as stored, before hydration,
+  // so that cursors compare the values the database holds
+  private async queryRows(
+    query: Query,
+    variables: Record<string, any>
+  ): Promise<{ rows: any[]; stored: any[] }> {
     if (!query.table || query.table.length === 0) {
       throw new Error("At least one table must be specified in the query");
     }
 
+    // Resolve "Variable" operands before building any SQL
+    const bind = (where?: Where) =>
+      where && this.bindVariables(where, variables);
+    query = {
+      ...query,
+      table: query.table.map((t) => ({ ...t, query: bind(t.query) })),
+      query: bind(query.query),
+      having: bind(query.having),
+    };
+
+    const aggregated = !!query.aggregate?.length || !!query.groupFields?.length;
+    if (aggregated && query.table.length > 1) {
+      throw new Error("Aggregate queries cannot join tables");
+    }
+
     // Validate foreign key connections
-    await this.validateForeignKeyConnection(query.table);
+    const joins = await this.resolveJoins(query.table);
 
     // Start with parent table query
     const parentTable = query.table[0].table;
-    let parentQuery = this.knexInstance(parentTable).select("*");
+    let parentQuery = this.knexInstance(parentTable);
 
     // Apply parent table filters
     if (query.table[0].query) {
@@ -866,6 +2222,15 @@ export class CoreDB {
       parentQuery = this.buildWhereClause(parentQuery, prefixedQuery);
     }
 
+    const projection = this.getProjection(
+      query.field,
+      parentTable,
+      this.joinKeys(joins[1])
+    );
+    parentQuery = aggregated
+      ? this.buildAggregateQuery(parentQuery, query)
+      : parentQuery.select(projection.columns);
+
     // Apply sorting and pagination
     if (query.sort) {
       for (const sort of query.sort) {
@@ -882,48 +2247,511 @@ export class CoreDB {
 
     // Execute parent query
     const parentResults = await parentQuery;
+    if (aggregated) return { rows: parentResults, stored: parentResults };
+    // Rows of every level come back with the types of their cataloged fields
+    const parentDefinition = await this.schemaDescribe(parentTable);
+
+    // Fetch the children of all parent records, one level at a time
+    const results = await this.fetchChildren(
+      parentResults.map((row: any) => this.hydrateRow(parentDefinition, row)),
+      query.table,
+      joins,
+      query.field,
+      1
+    );
+    return {
+      rows: projection.hidden.length
+        ? results.map((row) => _.omit(row, projection.hidden))
+        : results,
+      stored: parentResults,
+    };
+  }
+
+  // Keyset pagination: loads the `limit` rows after the cursor of the previous
+  // page instead of skipping rows with OFFSET. The cursor encodes the sort key
+  // values and the id of the last row; NULL sort values follow the ordering of
+  // the engine.
+  async paginate(
+    query: Query,
+    after?: string | null,
+    variables: Record<string, any> = {}
+  ): Promise<CursorPage> {
+    if (!query.limit) {
+      throw new Error("Cursor pagination requires a limit");
+    }
+
+    const tableName = query.table[0].table;
+    const sort = (query.sort || []).filter((s) => s.fieldId !== "id");
+    const idSort = query.sort?.find((s) => s.fieldId === "id");
+    const keys: Sort[] = [
+      ...sort,
+      { fieldId: "id", direction: idSort?.direction || "asc" },
+    ];
+    // Rows are read by column name, so sort fields must be loaded
+    const column = (fieldId: string) => fieldId.split(".").pop()!;
+    const projection = query.field?.[tableName];
+    const hidden = projection
+      ? keys
+          .map((k) => column(k.fieldId))
+          .filter((c) => !projection.includes(c))
+      : [];
+
+    let where = query.query;
+    if (after) {
+      const values = this.decodeCursor(after, keys.length);
+      // (a > x) OR (a = x AND b > y) OR ... for each sort key, skipping keys
+      // with no rows after a NULL value
+      const branches: Where[] = [];
+      keys.forEach((key, i) => {
+        const next = this.keysetAfter(key, values[i]);
+        if (!next) return;
+        branches.push({
+          And: [
+            ...keys
+              .slice(0, i)
+              .map((previous, j) => this.keysetEqual(previous, values[j])),
+            next,
+          ],
+        });
+      });
+      const keyset: Where = { Or: branches };
+      where = where ? { And: [where, keyset] } : keyset;
+    }
+
+    const { rows, stored } = await this.queryRows(
+      {
+        ...query,
+        query: where,
+        sort: keys,
+        page: undefined,
+        limit: query.limit + 1,
+        field: projection
+          ? { ...query.field, [tableName]: [...projection, ...hidden] }
+          : query.field,
+      },
+      variables
+    );
+
+    const items = rows.slice(0, query.limit);
+    // Hydrated values, e.g. Dates, may not compare like the stored ones
+    const last = stored[items.length - 1];
+    const nextCursor =
+      rows.length > query.limit
+        ? Buffer.from(
+            JSON.stringify(keys.map((k) => last[column(k.fieldId)]))
+          ).toString("base64url")
+        : null;
+
+    return {
+      items: hidden.length ? items.map((row) => _.omit(row, hidden)) : items,
+      nextCursor,
+    };
+  }
+
+  // Yields the rows of a query one chunk at a time, with their children, so
+  // that large results never have to fit in memory. Chunks are read with
+  // keyset pagination; limit caps the total number of rows.
+  async *stream(
+    query: Query,
+    variables: Record<string, any> = {},
+    chunkSize = STREAM_CHUNK_SIZE
+  ): AsyncIterable<any> {
+    if (query.page) {
+      throw new Error("Streamed queries cannot use page");
+    }
+    if (query.aggregate?.length || query.groupFields?.length) {
+      throw new Error("Aggregate queries cannot be streamed");
+    }
+
+    let remaining = query.limit ?? Infinity;
+    let cursor: string | null = null;
+    do {
+      const page: CursorPage = await this.paginate(
+        { ...query, limit: Math.min(chunkSize, remaining) },
+        cursor,
+        variables
+      );
+      yield* page.items;
+      remaining -= page.items.length;
+      cursor = page.nextCursor;
+    } while (cursor && remaining > 0);
+  }
+
+  // SQLite and MySQL sort NULLs first in ascending order, PostgreSQL last
+  private nullsFirst(direction: Sort["direction"]): boolean {
+    const client = this.knexInstance.client.config.client;
+    return (direction === "asc") === (client !== "pg");
+  }
+
+  private keysetEqual(key: Sort, value: any): Where {
+    return value === null
+      ? {
+          left: key.fieldId,
+          leftType: "Field",
+          cmp: "isNull",
+          rightType: "Value",
+        }
+      : {
+          left: key.fieldId,
+          leftType: "Field",
+          cmp: "eq",
+          right: value,
+          rightType: "Value",
+        };
+  }
+
+  // Rows sorted after the value of a key, or null when there are none
+  private keysetAfter(key: Sort, value: any): Where | null {
+    const nullsFirst = this.nullsFirst(key.direction);
+    const isNull = (cmp: "isNull" | "isNotNull"): Where => ({
+      left: key.fieldId,
+      leftType: "Field",
+      cmp,
+      rightType: "Value",
+    });
+    if (value === null) {
+      return nullsFirst ? isNull("isNotNull") : null;
+    }
+    const beyond: Where = {
+      left: key.fieldId,
+      leftType: "Field",
+      cmp: key.direction === "desc" ? "lt" : "gt",
+      right: value,
+      rightType: "Value",
+    };
+    return nullsFirst ? beyond : { Or: [beyond, isNull("isNull")] };
+  }
+
+  private decodeCursor(cursor: string, length: number): any[] {
+    let values: unknown;
+    try {
+      values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+      throw new Error(`Invalid cursor '${cursor}'`);
+    }
+    if (!Array.isArray(values) || values.length !== length) {
+      throw new Error(`Cursor '${cursor}' does not match the query sort`);
+    }
+    return values;
+  }
+
+  // Selects the group fields and aggregates of the filtered rows. HAVING is
+  // applied to the grouped rows as a subquery so that aggregate names can be
+  // used in it on every database.
+  private buildAggregateQuery(
+    builder: Knex.QueryBuilder,
+    query: Query
+  ): Knex.QueryBuilder {
+    const groupFields = query.groupFields || [];
+    let aggregateQuery = builder;
+    if (groupFields.length > 0) {
+      aggregateQuery = aggregateQuery.select(groupFields).groupBy(groupFields);
+    }
+
+    for (const aggregate of query.aggregate || []) {
+      if (!aggregate.field && aggregate.fn !== "count") {
+        throw new Error(`Aggregate '${aggregate.fn}' requires a field`);
+      }
+      const name =
+        aggregate.as ||
+        (aggregate.field ? `${aggregate.fn}_${aggregate.field}` : aggregate.fn);
+      const column = { [name]: aggregate.field || "*" };
+      switch (aggregate.fn) {
+        case "count":
+          aggregateQuery = aggregateQuery.count(column);
+          break;
+        case "countDistinct":
+          aggregateQuery = aggregateQuery.countDistinct(column);
+          break;
+        case "sum":
+          aggregateQuery = aggregateQuery.sum(column);
+          break;
+        case "avg":
+          aggregateQuery = aggregateQuery.avg(column);
+          break;
+        case "min":
+          aggregateQuery = aggregateQuery.min(column);
+          break;
+        case "max":
+          aggregateQuery = aggregateQuery.max(column);
+          break;
+        default:
+          throw new Error(`Unsupported aggregate: ${aggregate.fn}`);
+      }
+    }
 
-    // For each parent record, fetch its children
-    const results = await Promise.all(
-      parentResults.map((parent) => this.fetchChildren(parent, query.table, 1))
+    if (!query.having) return aggregateQuery;
+    return this.buildWhereClause(
+      this.knexInstance.select("*").from(aggregateQuery.as("grouped")),
+      query.having
     );
+  }
 
-    return results;
+  // Columns to select for a table: its Query.field projection or all columns.
+  // The id is selected anyway when child levels are nested under the rows.
+  private getProjection(
+    fields: Query["field"],
+    tableName: string,
+    keys: string[]
+  ): { columns: string[]; hidden: string[] } {
+    const projection = fields?.[tableName];
+    if (!projection) {
+      return { columns: [`${tableName}.*`], hidden: [] };
+    }
+
+    const columns = projection.map((column) =>
+      column.includes(".") ? column : `${tableName}.${column}`
+    );
+    // Join keys of the next level are loaded but not returned
+    const hidden = keys.filter((key) => !projection.includes(key));
+    columns.push(...hidden.map((key) => `${tableName}.${key}`));
+    return { columns, hidden };
   }
 
+  // Columns of a level's rows that the next level is joined on
+  private joinKeys(join?: TableJoin): string[] {
+    if (!join) return [];
+    return join.type === "parent" ? [join.foreignKey] : ["id"];
+  }
+
+  // Loads one level of children for all parents at once with batched
+  // `WHERE fk IN (...)` queries and nests them under their parent rows
   private async fetchChildren(
-    parent: any,
+    parents: any[],
     tables: TableQuery[],
+    joins: TableJoin[],
+    fields: Query["field"],
     depth: number
-  ): Promise<any> {
+  ): Promise<any[]> {
     if (depth >= tables.length) {
-      return parent;
+      return parents;
     }
 
-    const result = { ...parent };
-    const childTable = tables[depth].table;
-    const foreignKey = `${_.camelCase(tables[depth - 1].table)}Id`;
+    const level = tables[depth];
+    const childTable = level.table;
+    const join = joins[depth];
+    if (join.type === "parent") {
+      return this.fetchParents(parents, tables, joins, fields, depth, join);
+    }
+    if (level.count && depth + 1 < tables.length) {
+      throw new Error(
+        `Table '${childTable}' is only counted and cannot have joined tables`
+      );
+    }
 
-    let childQuery = this.knexInstance(childTable).where(foreignKey, parent.id);
+    // Column holding the parent id of a child row
+    const parentKey =
+      join.type === "foreignKey"
+        ? `${childTable}.${join.foreignKey}`
+        : `${join.table}.${join.parentColumn}`;
+    const projection = this.getProjection(
+      fields,
+      childTable,
+      this.joinKeys(joins[depth + 1])
+    );
+    // Children keep the level's sort, with the id as tie breaker
+    const prefix = (field: string) =>
+      field.includes(".") ? field : `${childTable}.${field}`;
+    const order = [
+      ...(level.sort || []).map((sort) => ({
+        column: prefix(sort.fieldId),
+        order: sort.direction === "desc" ? "desc" : "asc",
+      })),
+      { column: `${childTable}.id`, order: "asc" },
+    ];
+    const ranked = level.limit !== undefined || level.offset !== undefined;
+    const offset = level.offset || 0;
+
+    const childDefinition = await this.schemaDescribe(childTable);
+    const parentIds = _.uniq(parents.map((parent) => parent.id));
+    const parentKeys: any[] = [];
+    const rows: any[] = [];
+
+    for (const ids of _.chunk(parentIds, QUERY_BATCH_SIZE)) {
+      let childQuery = this.knexInstance(childTable).whereIn(parentKey, ids);
+      if (join.type === "junction") {
+        childQuery = childQuery.join(
+          join.table,
+          `${join.table}.${join.childColumn}`,
+          `${childTable}.id`
+        );
+      }
 
-    // Apply child table filters
-    if (tables[depth].query) {
-      const prefixedQuery = this.addTablePrefixToWhere(
-        tables[depth].query!,
-        childTable
+      // Apply child table filters
+      if (level.query) {
+        const prefixedQuery = this.addTablePrefixToWhere(
+          level.query,
+          childTable
+        );
+        // Conditions may compare with columns of the parent row
+        const parentTable = tables[depth - 1].table;
+        if (this.referencesTable(prefixedQuery, parentTable)) {
+          childQuery = childQuery.join(
+            parentTable,
+            `${parentTable}.id`,
+            parentKey
+          );
+        }
+        childQuery = this.buildWhereClause(childQuery, prefixedQuery);
+      }
+
+      if (level.count) {
+        const counts = await childQuery
+          .select(`${parentKey} as ${PARENT_KEY_ALIAS}`)
+          .count("* as count")
+          .groupBy(parentKey);
+        for (const row of counts) {
+          parentKeys.push(row[PARENT_KEY_ALIAS]);
+          rows.push(Number(row.count));
+        }
+        continue;
+      }
+
+      childQuery = childQuery.select(
+        ...projection.columns,
+        `${parentKey} as ${PARENT_KEY_ALIAS}`
       );
-      childQuery = this.buildWhereClause(childQuery, prefixedQuery);
+      if (ranked) {
+        // Number the children of each parent to page them per parent
+        childQuery = childQuery.select(
+          this.knexInstance.raw(
+            `row_number() over (partition by ?? order by ${order
+              .map((o) => `?? ${o.order}`)
+              .join(", ")}) as ${ROW_NUMBER_ALIAS}`,
+            [parentKey, ...order.map((o) => o.column)]
+          )
+        );
+        childQuery = this.knexInstance
+          .select("*")
+          .from(childQuery.as("ranked"))
+          .where(ROW_NUMBER_ALIAS, ">", offset)
+          .orderBy(ROW_NUMBER_ALIAS);
+        if (level.limit !== undefined) {
+          childQuery = childQuery.where(
+            ROW_NUMBER_ALIAS,
+            "<=",
+            offset + level.limit
+          );
+        }
+      } else {
+        childQuery = childQuery.orderBy(order);
+      }
+
+      for (const row of await childQuery) {
+        const {
+          [PARENT_KEY_ALIAS]: key,
+          [ROW_NUMBER_ALIAS]: _rowNumber,
+          ...child
+        } = row;
+        parentKeys.push(key);
+        rows.push(this.hydrateRow(childDefinition, child));
+      }
+    }
+
+    if (level.count) {
+      const countByParent = new Map(parentKeys.map((key, i) => [key, rows[i]]));
+      return parents.map((parent) => ({
+        ...parent,
+        [childTable]: countByParent.get(parent.id) || 0,
+      }));
     }
 
-    const children = await childQuery;
+    // Fetch the next level for all children of this level
+    const children = await this.fetchChildren(
+      rows,
+      tables,
+      joins,
+      fields,
+      depth + 1
+    );
+
+    const childrenByParent = new Map<any, any[]>();
+    children.forEach((child, i) => {
+      const siblings = childrenByParent.get(parentKeys[i]) || [];
+      siblings.push(_.omit(child, projection.hidden));
+      childrenByParent.set(parentKeys[i], siblings);
+    });
+
+    return parents.map((parent) => ({
+      ...parent,
+      [childTable]: childrenByParent.get(parent.id) || [],
+    }));
+  }
+
+  // Loads the parent rows referenced by the previous level and embeds each
+  // as an object, or null when the reference is empty or filtered out
+  private async fetchParents(
+    children: any[],
+    tables: TableQuery[],
+    joins: TableJoin[],
+    fields: Query["field"],
+    depth: number,
+    join: { foreignKey: string }
+  ): Promise<any[]> {
+    const level = tables[depth];
+    const parentTable = level.table;
+    if (
+      level.count ||
+      level.sort ||
+      level.limit !== undefined ||
+      level.offset !== undefined
+    ) {
+      throw new Error(
+        `Table '${parentTable}' is included as a parent and cannot be sorted, paged or counted`
+      );
+    }
+
+    const projection = this.getProjection(
+      fields,
+      parentTable,
+      this.joinKeys(joins[depth + 1])
+    );
+    const parentIds = _.uniq(
+      children
+        .map((child) => child[join.foreignKey])
+        .filter((id) => id !== null && id !== undefined)
+    );
+    const parentDefinition = await this.schemaDescribe(parentTable);
+    const keys: any[] = [];
+    const rows: any[] = [];
+
+    for (const ids of _.chunk(parentIds, QUERY_BATCH_SIZE)) {
+      let parentQuery = this.knexInstance(parentTable)
+        .select(
+          ...projection.columns,
+          `${parentTable}.id as ${PARENT_KEY_ALIAS}`
+        )
+        .whereIn(`${parentTable}.id`, ids);
+      if (level.query) {
+        parentQuery = this.buildWhereClause(
+          parentQuery,
+          this.addTablePrefixToWhere(level.query, parentTable)
+        );
+      }
+
+      for (const row of await parentQuery) {
+        const { [PARENT_KEY_ALIAS]: key, ...parent } = row;
+        keys.push(key);
+        rows.push(this.hydrateRow(parentDefinition, parent));
+      }
+    }
 
-    // Recursively fetch children for each child
-    const nestedChildren = await Promise.all(
-      children.map((child) => this.fetchChildren(child, tables, depth + 1))
+    // Fetch the next level for all parents of this level
+    const parents = await this.fetchChildren(
+      rows,
+      tables,
+      joins,
+      fields,
+      depth + 1
+    );
+    const parentById = new Map(
+      parents.map((parent, i) => [keys[i], _.omit(parent, projection.hidden)])
     );
 
-    result[childTable] = nestedChildren;
-    return result;
+    return children.map((child) => ({
+      ...child,
+      [parentTable]: parentById.get(child[join.foreignKey]) ?? null,
+    }));
   }
 
   private addTablePrefixToWhere(where: Where, tableName: string): Where {
@@ -937,17 +2765,58 @@ export class CoreDB {
       };
     } else {
       // Don't add table prefix if it's already prefixed
-      const left = where.left as string;
-      if (left.includes(".")) {
-        return where;
-      }
+      const prefix = (field: string) =>
+        field.includes(".") ? field : `${tableName}.${field}`;
       return {
         ...where,
-        left: `${tableName}.${where.left}`,
+        left: prefix(where.left as string),
+        right:
+          where.rightType === "Field"
+            ? prefix(where.right as string)
+            : where.right,
       };
     }
   }
 
+  // Replaces "Variable" operands by their value in the query variables
+  private bindVariables(where: Where, variables: Record<string, any>): Where {
+    if ("Or" in where) {
+      return { Or: where.Or.map((w) => this.bindVariables(w, variables)) };
+    } else if ("And" in where) {
+      return { And: where.And.map((w) => this.bindVariables(w, variables)) };
+    } else if (where.rightType !== "Variable") {
+      return where;
+    }
+
+    const name = String(where.right);
+    if (!(name in variables)) {
+      throw new Error(`No value given for query variable '${name}'`);
+    }
+    return { ...where, right: variables[name], rightType: "Value" };
+  }
+
+  // Whether a condition refers to a column of the given table
+  private referencesTable(where: Where, tableName: string): boolean {
+    if ("Or" in where) {
+      return where.Or.some((w) => this.referencesTable(w, tableName));
+    } else if ("And" in where) {
+      return where.And.some((w) => this.referencesTable(w, tableName));
+    }
+    const fields = [where.left, where.rightType === "Field" ? where.right : ""];
+    return fields.some((f) => String(f).startsWith(`${tableName}.`));
+  }
+
+  // Dates are stored as ISO strings in SQLite, so compare them as such
+  private toQueryValue(value: any): any {
+    if (
+      value instanceof Date &&
+      this.knexInstance.client.config.client === "sqlite3"
+    ) {
+      return value.toISOString();
+    }
+    return value;
+  }
+
   private buildWhereClause(
     builder: Knex.QueryBuilder,
     where: Where
@@ -965,15 +2834,32 @@ export class CoreDB {
           qb.where((subQb) => this.buildWhereClause(subQb, condition));
         });
       });
-    } else {
-      let { left, right, cmp } = where;
-      // if right is a Date object and this is sqlite, then convert it to string
-      if (
-        right instanceof Date &&
-        this.knexInstance.client.config.client === "sqlite3"
-      ) {
-        right = right.toISOString();
+    } else if (where.rightType === "Field") {
+      // Column to column comparison, e.g. updatedAt > createdAt
+      const operators: { [cmp: string]: string } = {
+        eq: "=",
+        neq: "!=",
+        ne: "!=",
+        not: "!=",
+        gt: ">",
+        gte: ">=",
+        lt: "<",
+        lte: "<=",
+        like: "LIKE",
+        nlike: "NOT LIKE",
+      };
+      if (!operators[where.cmp]) {
+        throw new Error(`Operator '${where.cmp}' cannot compare two fields`);
       }
+      return builder.whereRaw(`?? ${operators[where.cmp]} ??`, [
+        where.left,
+        where.right,
+      ]);
+    } else {
+      const { left, cmp } = where;
+      const right = Array.isArray(where.right)
+        ? where.right
+        : this.toQueryValue(where.right);
       switch (cmp) {
         case "eq":
           return builder.where(left as string, "=", right);
@@ -998,6 +2884,46 @@ export class CoreDB {
           return builder.whereNotIn(left as string, right as any[]);
         case "not":
           return builder.where(left as string, "!=", right);
+        case "isNull":
+          return builder.whereNull(left as string);
+        case "isNotNull":
+          return builder.whereNotNull(left as string);
+        case "between":
+          if (!Array.isArray(right) || right.length !== 2) {
+            throw new Error(
+              "BETWEEN operator requires a [min, max] array value"
+            );
+          }
+          return builder.whereBetween(
+            left as string,
+            right.map((v) => this.toQueryValue(v)) as [any, any]
+          );
+        case "startsWith":
+          return builder.whereRaw(`?? LIKE ? ESCAPE '!'`, [
+            left,
+            `${escapeLike(String(right))}%`,
+          ]);
+        case "endsWith":
+          return builder.whereRaw(`?? LIKE ? ESCAPE '!'`, [
+            left,
+            `%${escapeLike(String(right))}`,
+          ]);
+        case "ilike":
+          return builder.whereRaw("lower(??) LIKE lower(?)", [
+            left,
+            `%${right}%`,
+          ]);
+        case "regex": {
+          const client = this.knexInstance.client.config.client;
+          // node-sqlite3 cannot register the regexp() function REGEXP calls
+          if (client === "sqlite3") {
+            throw new Error("The regex operator is not supported on SQLite");
+          }
+          return builder.whereRaw(client === "pg" ? "?? ~ ?" : "?? REGEXP ?", [
+            left,
+            right,
+          ]);
+        }
         default:
           throw new Error(`Unsupported operator: ${cmp}`);
       }
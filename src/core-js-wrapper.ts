@@ -1,15 +1,21 @@
 import { Knex } from "knex-fork";
 import { z } from 'zod';
 import {
+  AggregateFunction,
   CoreDB,
+  CursorPage,
   FieldDef,
   FieldType,
   Query,
   Sort,
   TableDefinition,
+  TableQuery,
+  TransactionOptions,
   Where,
   WhereCmp,
+  WriteOptions,
 } from "./core-db";
+import { DB, Operator, OperatorArgs, QueryBuilder } from "./types";
 
 export enum Cmp {
   Eq = "eq",
@@ -24,9 +30,61 @@ export enum Cmp {
   In = "in",
   NotIn = "nin",
   Not = "not",
+  IsNull = "isNull",
+  IsNotNull = "isNotNull",
+  Between = "between", // value is [min, max]
+  StartsWith = "startsWith",
+  EndsWith = "endsWith",
+  ILike = "ilike",
+  Regex = "regex",
 }
 
-export class SchemaWrapper {
+// TypeScript types of the values of each field type, as loaded by queries.
+// 1:n and n:n references are not columns of the table.
+type FieldValues = {
+  Text: string;
+  Password: string;
+  UUID: string;
+  Integer: number;
+  Currency: string;
+  Float: number;
+  Double: number;
+  Decimal: string;
+  Datetime: Date;
+  Time: string;
+  Date: Date;
+  CreatedAt: Date;
+  UpdatedAt: Date;
+  Boolean: boolean;
+  Binary: Buffer;
+  ID: number;
+  Enum: string;
+  ReferenceOneToOne: number;
+  ReferenceManyToOne: number;
+  ReferenceOneToMany: never;
+  ReferenceManyToMany: never;
+};
+
+// Row type of one field: optional and nullable unless required
+type FieldRow<N extends string, V, Required extends boolean> = [V] extends [
+  never
+]
+  ? {}
+  : Required extends true
+  ? { [P in N]: V }
+  : { [P in N]?: V | null };
+
+// Flattens the intersection of the row types of the fields
+type Expand<T> = { [K in keyof T]: T[K] };
+
+// Row type of the table defined by a schema builder, e.g.
+// InferRow<typeof usersSchema>
+export type InferRow<S> = S extends SchemaWrapper<infer Row>
+  ? Expand<Row>
+  : never;
+
+// Row accumulates the row types of the fields defined so far
+export class SchemaWrapper<Row extends Record<string, any> = { id: number }> {
   private fields: FieldDef[] = [];
   private indexes: { fields: string[]; type: "Unique" | "Default" }[] = [];
   private tableName: string;
@@ -38,13 +96,13 @@ export class SchemaWrapper {
     this.wrapper = wrapper;
   }
 
-  withZodSchema(schema: z.ZodType<any>): SchemaWrapper {
+  withZodSchema(schema: z.ZodType<any>): this {
     this.zodSchema = schema;
     this.wrapper.setZodSchema(this.tableName, schema);
     return this;
   }
 
-  field(name: string): SchemaFieldBuilder {
+  field<N extends string>(name: N): SchemaFieldBuilder<Row, N> {
     return new SchemaFieldBuilder(this, name);
   }
 
@@ -93,23 +151,45 @@ export class SchemaWrapper {
   }
 }
 
-class SchemaFieldBuilder {
+// V is the type of the values of the field and Required whether it is required
+class SchemaFieldBuilder<
+  Row extends Record<string, any>,
+  N extends string,
+  V = string,
+  Required extends boolean = false
+> {
   private field: FieldDef;
-  private schema: SchemaWrapper;
+  private schema: SchemaWrapper<Row>;
 
-  constructor(schema: SchemaWrapper, name: string) {
+  constructor(schema: SchemaWrapper<Row>, name: N) {
     this.schema = schema;
     this.field = { name, type: "Text" };
   }
 
-  type(type: FieldType) {
+  // An Enum keeps the options given before its type
+  type<F extends FieldType>(
+    type: F
+  ): SchemaFieldBuilder<
+    Row,
+    N,
+    F extends "Enum" ? (V extends string ? V : string) : FieldValues[F],
+    Required
+  > {
     this.field.type = type;
-    return this;
+    return this as SchemaFieldBuilder<Row, N, any, Required>;
+  }
+
+  // Allowed values of an Enum field, typed as the union of these literals
+  options<O extends string>(
+    ...values: O[]
+  ): SchemaFieldBuilder<Row, N, O, Required> {
+    this.field.options = values;
+    return this as SchemaFieldBuilder<Row, N, any, Required>;
   }
 
-  required() {
+  required(): SchemaFieldBuilder<Row, N, V, true> {
     this.field.required = true;
-    return this;
+    return this as SchemaFieldBuilder<Row, N, V, any>;
   }
 
   default(value: string) {
@@ -147,9 +227,9 @@ class SchemaFieldBuilder {
     return this;
   }
 
-  done() {
+  done(): SchemaWrapper<Row & FieldRow<N, V, Required>> {
     this.schema.addField(this.field);
-    return this.schema;
+    return this.schema as SchemaWrapper<any>;
   }
 }
 
@@ -166,13 +246,17 @@ export class QueryWrapper {
 
   private lastJoinedTable: string | null = null;
 
-  join(tableName: string): QueryWrapper {
-    this.query.table.push({ table: tableName });
+  // options sorts, pages or counts the joined rows of each parent
+  join(
+    tableName: string,
+    options: Omit<TableQuery, "table" | "query"> = {}
+  ): QueryWrapper {
+    this.query.table.push({ table: tableName, ...options });
     this.lastJoinedTable = tableName;
     return this;
   }
 
-  where(field: string, cmp: Cmp, value: any): QueryWrapper {
+  where(field: string, cmp: Cmp, value?: any): QueryWrapper {
     const whereCmp: WhereCmp = {
       left: field,
       leftType: "Field",
@@ -204,19 +288,19 @@ export class QueryWrapper {
     return this;
   }
 
-  andWhere(field: string, cmp: Cmp, value: any): QueryWrapper {
+  andWhere(field: string, cmp: Cmp, value?: any): QueryWrapper {
     return this.and(field, cmp, value);
   }
 
-  and(field: string, cmp: Cmp, value: any): QueryWrapper {
+  and(field: string, cmp: Cmp, value?: any): QueryWrapper {
     return this.where(field, cmp, value);
   }
 
-  orWhere(field: string, cmp: Cmp, value: any): QueryWrapper {
+  orWhere(field: string, cmp: Cmp, value?: any): QueryWrapper {
     return this.or(field, cmp, value);
   }
 
-  or(field: string, cmp: Cmp, value: any): QueryWrapper {
+  or(field: string, cmp: Cmp, value?: any): QueryWrapper {
     const whereCmp: WhereCmp = {
       left: field,
       leftType: "Field",
@@ -253,6 +337,14 @@ export class QueryWrapper {
     return this;
   }
 
+  // Columns to load ("column" or "column as alias"), for the last joined
+  // table or else the root table
+  select(...fields: string[]): QueryWrapper {
+    const table = this.lastJoinedTable || this.query.table[0].table;
+    this.query.field = { ...this.query.field, [table]: fields };
+    return this;
+  }
+
   limit(value: number): QueryWrapper {
     this.query.limit = value;
     return this;
@@ -278,8 +370,23 @@ export class QueryWrapper {
     return this;
   }
 
-  async execute(): Promise<any[]> {
-    return await this.db.query(this.query);
+  // variables supplies the values of "Variable" operands in dumped queries
+  async execute(variables?: Record<string, any>): Promise<any[]> {
+    return await this.db.query(this.query, variables);
+  }
+
+  // Yields the matching rows chunk by chunk instead of loading them at once
+  iterate(variables?: Record<string, any>): AsyncIterable<any> {
+    return this.db.stream(this.query, variables);
+  }
+
+  // Loads the page after the cursor of the previous page (the first page
+  // when omitted), with the limit as page size
+  async after(
+    cursor?: string | null,
+    variables?: Record<string, any>
+  ): Promise<CursorPage> {
+    return await this.db.paginate(this.query, cursor, variables);
   }
 
   async first(): Promise<any | null> {
@@ -292,47 +399,221 @@ export class QueryWrapper {
     return result !== null;
   }
 
-  // TODO: Implement this with count(*) instead as this si
-  // slow af
+  // Runs a single SQL aggregate over the rows matched by the root table
+  private async aggregate(fn: AggregateFunction, field?: string): Promise<any> {
+    const [row] = await this.db.query({
+      table: [this.query.table[0]],
+      query: this.query.query,
+      aggregate: [{ fn, field, as: "value" }],
+    });
+    return row?.value ?? null;
+  }
+
   async count(): Promise<number> {
-    const results = await this.execute();
-    return results.length;
+    return Number(await this.aggregate("count"));
   }
 
-  // TODO: Implement this with sum(x) instead as this si
-  // slow af
   async sum(field: string): Promise<number> {
-    const results = await this.execute();
-    return results.reduce((sum, row) => sum + (parseFloat(row[field]) || 0), 0);
+    return Number((await this.aggregate("sum", field)) ?? 0);
   }
 
-  // TODO: Implement this with avg(x) instead as this si
-  // slow af
   async avg(field: string): Promise<number> {
-    const results = await this.execute();
-    if (results.length === 0) return 0;
-    const sum = results.reduce(
-      (sum, row) => sum + (parseFloat(row[field]) || 0),
-      0
+    return Number((await this.aggregate("avg", field)) ?? 0);
+  }
+
+  async min(field: string): Promise<any> {
+    return await this.aggregate("min", field);
+  }
+
+  async max(field: string): Promise<any> {
+    return await this.aggregate("max", field);
+  }
+
+  // Deletes the rows matched by the root table in one statement and returns
+  // how many were deleted; without conditions every row is deleted.
+  // variables are bound as in execute
+  async delete(variables?: Record<string, any>): Promise<number> {
+    const [root] = this.query.table;
+    const conditions = [root.query, this.query.query].filter(
+      (where): where is Where => !!where
+    );
+    const { sort, limit, page } = this.query;
+    if (limit !== undefined || page !== undefined) {
+      // Only the ids of the limited page are deleted, in the query's order
+      const rows = await this.db.query(
+        {
+          table: [{ table: root.table, query: root.query }],
+          field: { [root.table]: ["id"] },
+          query: this.query.query,
+          sort,
+          limit,
+          page,
+        },
+        variables
+      );
+      if (rows.length === 0) return 0;
+      return await this.db.deleteWhere(root.table, {
+        left: "id",
+        leftType: "Field",
+        cmp: "in",
+        right: rows.map((row) => row.id),
+        rightType: "Value",
+      });
+    }
+    return await this.db.deleteWhere(
+      root.table,
+      { And: conditions },
+      variables
     );
-    return sum / results.length;
   }
 
-  async delete(): Promise<any[]> {
-    const results = await this.execute();
-    const recordsToDelete = [...results]; // Make a copy before deleting
+  dump(): Query {
+    return this.query;
+  }
+}
 
-    if (results.length > 0) {
-      const ids = results.map((r) => r.id);
-      await this.db.delete(this.query.table[0].table, ids);
+// SQL comparison symbols accepted next to Cmp values by TypedQuery.where
+const OPERATOR_CMP: Record<string, Cmp> = {
+  "=": Cmp.Eq,
+  "!=": Cmp.Neq,
+  "<": Cmp.Lt,
+  "<=": Cmp.Lte,
+  ">": Cmp.Gt,
+  ">=": Cmp.Gte,
+};
+
+// Query on a table with rows of type T, loading rows of type R: field names
+// and compared values are checked against T
+export class TypedQuery<T extends Record<string, any>, R = T>
+  implements QueryBuilder<T, R>
+{
+  private query: Query;
+  private db: CoreDB;
+
+  constructor(db: CoreDB, tableName: string) {
+    this.db = db;
+    this.query = {
+      table: [{ table: tableName }],
+    };
+  }
+
+  where<K extends keyof T & string, O extends Operator>(
+    field: K,
+    operator: O,
+    ...value: OperatorArgs<T[K], O>
+  ): TypedQuery<T, R> {
+    return this.combine("And", field, operator, value[0]);
+  }
+
+  orWhere<K extends keyof T & string, O extends Operator>(
+    field: K,
+    operator: O,
+    ...value: OperatorArgs<T[K], O>
+  ): TypedQuery<T, R> {
+    return this.combine("Or", field, operator, value[0]);
+  }
+
+  private combine(
+    bool: "And" | "Or",
+    field: string,
+    operator: Operator,
+    value: any
+  ): TypedQuery<T, R> {
+    const whereCmp: WhereCmp = {
+      left: field,
+      leftType: "Field",
+      cmp: OPERATOR_CMP[operator] ?? operator,
+      right: value,
+      rightType: "Value",
+    };
+
+    if (!this.query.query) {
+      this.query.query = whereCmp;
+    } else if (bool === "And") {
+      this.query.query = { And: [this.query.query, whereCmp] };
+    } else {
+      this.query.query = { Or: [this.query.query, whereCmp] };
+    }
+    return this;
+  }
+
+  // Loads only the given columns of the table; joined children are kept
+  select<K extends keyof T & string>(
+    ...fields: K[]
+  ): TypedQuery<T, Pick<T, K> & Omit<R, keyof T>> {
+    const [root] = this.query.table;
+    this.query.field = { ...this.query.field, [root.table]: fields };
+    return this as TypedQuery<T, any>;
+  }
+
+  // Embeds the rows of a child table as an array under its name. The child
+  // query, on that same table, filters, selects, sorts and limits the
+  // children of each row and may join further tables itself.
+  join<N extends string, C = Record<string, any>>(
+    tableName: N,
+    child?: TypedQuery<any, C>,
+    options: { foreignKey?: string } = {}
+  ): TypedQuery<T, R & { [P in N]: C[] }> {
+    const [root, joined] = this.query.table;
+    if (joined) {
+      throw new Error(
+        `Query on '${root.table}' already joins '${joined.table}'`
+      );
     }
 
-    // Return the deleted records without their IDs
-    return recordsToDelete.map((r) => {
-      const record = { ...r };
-      delete record.id;
-      return record;
-    });
+    const childQuery = child?.dump() ?? { table: [{ table: tableName }] };
+    const [childRoot, ...descendants] = childQuery.table;
+    if (childRoot.table !== tableName) {
+      throw new Error(
+        `Cannot join '${tableName}' with a query on '${childRoot.table}'`
+      );
+    }
+
+    const { limit, page } = childQuery;
+    this.query.table.push(
+      {
+        table: tableName,
+        ...options,
+        query: childQuery.query,
+        sort: childQuery.sort,
+        limit,
+        offset: limit && page ? (page - 1) * limit : undefined,
+      },
+      ...descendants
+    );
+    this.query.field = { ...this.query.field, ...childQuery.field };
+    return this as TypedQuery<T, any>;
+  }
+
+  orderBy(
+    field: keyof T & string,
+    direction: "asc" | "desc" = "asc"
+  ): TypedQuery<T, R> {
+    const sort: Sort = {
+      fieldId: field,
+      direction,
+    };
+    this.query.sort = [...(this.query.sort || []), sort];
+    return this;
+  }
+
+  limit(value: number): TypedQuery<T, R> {
+    this.query.limit = value;
+    return this;
+  }
+
+  page(value: number): TypedQuery<T, R> {
+    this.query.page = value;
+    return this;
+  }
+
+  async get(): Promise<R[]> {
+    return await this.db.query(this.query);
+  }
+
+  async first(): Promise<R | null> {
+    const results = await this.limit(1).get();
+    return results.length > 0 ? results[0] : null;
   }
 
   dump(): Query {
@@ -340,6 +621,33 @@ export class QueryWrapper {
   }
 }
 
+// Handle on a table with rows of type T, see Wrapper.table
+export class TypedTable<T extends Record<string, any>> implements DB<T> {
+  private wrapper: Wrapper;
+  private tableName: string;
+
+  constructor(wrapper: Wrapper, tableName: string) {
+    this.wrapper = wrapper;
+    this.tableName = tableName;
+  }
+
+  async insert(data: Omit<T, "id">): Promise<number> {
+    return await this.wrapper.insert(this.tableName, data);
+  }
+
+  async update(id: number, data: Partial<Omit<T, "id">>): Promise<void> {
+    await this.wrapper.update(this.tableName, id, data);
+  }
+
+  async delete(id: number): Promise<void> {
+    await this.wrapper.delete(this.tableName, id);
+  }
+
+  query(): TypedQuery<T> {
+    return new TypedQuery<T>(this.wrapper.coreDb(), this.tableName);
+  }
+}
+
 export class Wrapper {
   private db: CoreDB;
   private zodSchemas: Map<string, z.ZodType<any>> = new Map();
@@ -368,11 +676,22 @@ export class Wrapper {
     return new QueryWrapper(this.db, tableName);
   }
 
+  // Typed handle on a table whose rows have type T, or the row type of the
+  // fields defined by a schema builder
+  table<T extends Record<string, any>>(tableName: string): TypedTable<T>;
+  table<Row extends Record<string, any>>(
+    schema: SchemaWrapper<Row>
+  ): TypedTable<Expand<Row>>;
+  table(table: string | SchemaWrapper<any>): TypedTable<any> {
+    const tableName = typeof table === "string" ? table : table.build().name;
+    return new TypedTable(this, tableName);
+  }
+
   coreDb(): CoreDB {
     return this.db;
   }
 
-  async createTable(schema: SchemaWrapper | TableDefinition) {
+  async createTable(schema: SchemaWrapper<any> | TableDefinition) {
     const tableDef = schema instanceof SchemaWrapper ? schema.build() : schema;
     await this.db.schemaCreateOrUpdate(tableDef);
   }
@@ -385,19 +704,58 @@ export class Wrapper {
     await this.db.schemaDropField(tableName, fieldName);
   }
 
-  async insert(tableName: string, data: Record<string, any>): Promise<number> {
+  insert(
+    tableName: string,
+    data: Record<string, any>,
+    options?: { returning?: false }
+  ): Promise<number>;
+  insert(
+    tableName: string,
+    data: Record<string, any>,
+    options: { returning: true }
+  ): Promise<Record<string, any>>;
+  async insert(
+    tableName: string,
+    data: Record<string, any>,
+    options: WriteOptions = {}
+  ): Promise<number | Record<string, any>> {
     const schema = this.zodSchemas.get(tableName);
     if (schema) {
       data = schema.parse(data);
     }
-    return await this.db.insert(tableName, data);
+    return await this.db.insert(tableName, data, options);
+  }
+
+  async insertMany(
+    tableName: string,
+    rows: Record<string, any>[],
+    options?: { chunkSize?: number }
+  ): Promise<number> {
+    const schema = this.zodSchemas.get(tableName);
+    if (schema) {
+      rows = rows.map((row) => schema.parse(row));
+    }
+    return await this.db.insertMany(tableName, rows, options);
   }
 
+  update(
+    tableName: string,
+    id: number,
+    data: Record<string, any>,
+    options?: { returning?: false }
+  ): Promise<void>;
+  update(
+    tableName: string,
+    id: number,
+    data: Record<string, any>,
+    options: { returning: true }
+  ): Promise<Record<string, any> | null>;
   async update(
     tableName: string,
     id: number,
-    data: Record<string, any>
-  ): Promise<void> {
+    data: Record<string, any>,
+    options: WriteOptions = {}
+  ): Promise<Record<string, any> | null | void> {
     const schema = this.zodSchemas.get(tableName);
     if (schema && schema instanceof z.ZodObject) {
       // Make all fields optional for partial updates
@@ -411,7 +769,7 @@ export class Wrapper {
       );
       data = partialSchema.parse(data);
     }
-    await this.db.update(tableName, id, data);
+    return await this.db.update(tableName, id, data, options);
   }
 
   async delete(tableName: string, ids: number | number[]): Promise<void> {
@@ -419,13 +777,39 @@ export class Wrapper {
     await this.db.delete(tableName, idArray);
   }
 
+  async link(
+    tableName: string,
+    id: number,
+    fieldName: string,
+    relatedIds: number | number[]
+  ): Promise<void> {
+    await this.db.link(tableName, id, fieldName, relatedIds);
+  }
+
+  async unlink(
+    tableName: string,
+    id: number,
+    fieldName: string,
+    relatedIds?: number | number[]
+  ): Promise<void> {
+    await this.db.unlink(tableName, id, fieldName, relatedIds);
+  }
+
   async close(): Promise<void> {
     await this.db.close();
   }
 
+  // Wrapper on another CoreDB, e.g. a transaction, that shares the zod
+  // schemas of this one, so validation also runs inside transactions
+  private derive(db: CoreDB): Wrapper {
+    const wrapper = new Wrapper(db);
+    wrapper.zodSchemas = this.zodSchemas;
+    return wrapper;
+  }
+
   async startTransaction(): Promise<Wrapper> {
     const trx = await this.db.startTransaction();
-    return new Wrapper(trx);
+    return this.derive(trx);
   }
 
   async commitTransaction(): Promise<void> {
@@ -438,4 +822,16 @@ export class Wrapper {
   async releaseTransaction(): Promise<void> {
     await this.db.releaseTransaction();
   }
+
+  // Commits when the callback resolves and rolls back when it throws, see
+  // CoreDB.transaction
+  async transaction<T>(
+    callback: (tx: Wrapper) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T> {
+    return await this.db.transaction(
+      (trx) => callback(this.derive(trx)),
+      options
+    );
+  }
 }
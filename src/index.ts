@@ -1,3 +1,5 @@
 export { CoreDB } from "./core-db";
 export { CoreDBPlus } from "./core-db-plus";
-export { Cmp, Wrapper as DB } from "./core-js-wrapper";
+export { Cmp, TypedQuery, TypedTable, Wrapper as DB } from "./core-js-wrapper";
+export type { InferRow } from "./core-js-wrapper";
+export { MigrationRunner } from "./core-db-migrations";
@@ -5,8 +5,41 @@ import {
   FieldType,
   QueryPlus,
   TableDefinitionPlus,
+  TransactionMode,
+  TransactionOptions,
+  UpsertOptions,
   WherePlus,
+  WriteOptions,
 } from "./basetypes";
+import { Action } from "./tstypes";
+
+// Escapes LIKE wildcards for patterns matched with ESCAPE '!'
+const escapeLike = (value: string) => value.replace(/[!%_]/g, "!$&");
+
+// Current time in the same ISO 8601 format as Date.toISOString()
+const SQLITE_NOW = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+// Field types stored as ISO 8601 text
+const DATE_FIELD_TYPES: FieldType[] = [
+  "Datetime",
+  "Date",
+  "CreatedAt",
+  "UpdatedAt",
+];
+const DECIMAL_FIELD_TYPES: FieldType[] = ["Currency", "Decimal"];
+
+// Table definitions are kept in the catalog table of CoreDB, in the same
+// layout, so that rows of reopened databases are hydrated as well
+const CATALOG_TABLE = "_typepersist_catalog";
+
+// Retries of transaction callbacks failing with SQLITE_BUSY or SQLITE_LOCKED,
+// starting after TRANSACTION_RETRY_DELAY ms with exponential backoff
+const TRANSACTION_RETRIES = 5;
+const TRANSACTION_RETRY_DELAY = 50;
+
+// SQLite reports concurrent writers with SQLITE_BUSY or SQLITE_LOCKED
+const isBusyError = (error: any) =>
+  /SQLITE_BUSY|SQLITE_LOCKED/.test(`${error?.code} ${error?.message}`);
 
 // SQLite interface that provides execSql and querySql methods
 export interface SQLiteInterface {
@@ -17,8 +50,11 @@ export interface SQLiteInterface {
 export class SQLDBPlus {
   private sqliteInterface: SQLiteInterface;
   private currentDB?: string;
-  private transactionOpen = false;
-  private autoCommit = false;
+  // autoCommit flag of each open transaction, outermost first; nested ones
+  // are savepoints
+  private transactions: boolean[] = [];
+  // Definitions of the tables read from or written to the catalog
+  private tableDefinitions = new Map<string, TableDefinitionPlus>();
 
   constructor(sqliteInterface: SQLiteInterface) {
     this.sqliteInterface = sqliteInterface;
@@ -31,6 +67,76 @@ export class SQLDBPlus {
   async createTable(tableDefinition: TableDefinitionPlus) {
     const sql = this.generateCreateTableSQL(tableDefinition);
     await this.sqliteInterface.execSql(sql);
+    await this.writeDefinition(tableDefinition);
+
+    for (const index of tableDefinition.compoundIndexes || []) {
+      const { name } = tableDefinition;
+      const unique = index.type === "Unique" ? "UNIQUE " : "";
+      const indexName = `idx_${name}_${index.fields.join("_")}`;
+      const columns = index.fields.join(", ");
+      await this.sqliteInterface.execSql(
+        `CREATE ${unique}INDEX IF NOT EXISTS ${indexName} ON ${name} (${columns})`
+      );
+    }
+
+    // UpdatedAt fields are refreshed by a trigger whenever a row changes
+    // without setting them explicitly
+    for (const field of tableDefinition.fields) {
+      if (field.type === "UpdatedAt") {
+        const { name } = tableDefinition;
+        await this.sqliteInterface.execSql(
+          `CREATE TRIGGER IF NOT EXISTS trg_${name}_${field.name}_update AFTER UPDATE ON ${name} FOR EACH ROW WHEN NEW.${field.name} IS OLD.${field.name} BEGIN UPDATE ${name} SET ${field.name} = ${SQLITE_NOW} WHERE id = NEW.id; END`
+        );
+      }
+    }
+  }
+
+  private async writeDefinition(
+    tableDefinition: TableDefinitionPlus
+  ): Promise<void> {
+    await this.sqliteInterface.execSql(
+      `CREATE TABLE IF NOT EXISTS ${CATALOG_TABLE} (id INTEGER PRIMARY KEY AUTOINCREMENT, tableName TEXT NOT NULL UNIQUE, definition TEXT NOT NULL)`
+    );
+    await this.sqliteInterface.execSql(
+      `INSERT INTO ${CATALOG_TABLE} (tableName, definition) VALUES (?, ?) ON CONFLICT (tableName) DO UPDATE SET definition = excluded.definition`,
+      [tableDefinition.name, JSON.stringify(tableDefinition)]
+    );
+    this.tableDefinitions.set(tableDefinition.name, tableDefinition);
+  }
+
+  private async deleteDefinition(tableName: string): Promise<void> {
+    this.tableDefinitions.delete(tableName);
+    if (await this.hasCatalog()) {
+      await this.sqliteInterface.execSql(
+        `DELETE FROM ${CATALOG_TABLE} WHERE tableName = ?`,
+        [tableName]
+      );
+    }
+  }
+
+  // Definition of a table, read from the catalog once
+  private async describeTable(
+    tableName: string
+  ): Promise<TableDefinitionPlus | undefined> {
+    const cached = this.tableDefinitions.get(tableName);
+    if (cached || !(await this.hasCatalog())) return cached;
+
+    const [row] = await this.sqliteInterface.querySql(
+      `SELECT definition FROM ${CATALOG_TABLE} WHERE tableName = ?`,
+      [tableName]
+    );
+    if (!row) return undefined;
+    const tableDefinition: TableDefinitionPlus = JSON.parse(row.definition);
+    this.tableDefinitions.set(tableName, tableDefinition);
+    return tableDefinition;
+  }
+
+  private async hasCatalog(): Promise<boolean> {
+    const tables = await this.sqliteInterface.querySql(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+      [CATALOG_TABLE]
+    );
+    return tables.length > 0;
   }
 
   private generateCreateTableSQL(tableDefinition: TableDefinitionPlus): string {
@@ -54,7 +160,16 @@ export class SQLDBPlus {
   }
 
   private getSQLiteFieldDefinition(field: any): string {
-    const { name, type, required, indexed, defaultValue } = field;
+    const {
+      name,
+      type,
+      required,
+      indexed,
+      defaultValue,
+      options,
+      minimum,
+      maximum,
+    } = field;
 
     // Map FieldType to SQLite type
     let sqliteType = this.getSQLiteType(type);
@@ -67,6 +182,9 @@ export class SQLDBPlus {
     // Add DEFAULT value if provided
     if (defaultValue !== undefined) {
       sqliteType += ` DEFAULT ${this.formatDefaultValue(defaultValue, type)}`;
+    } else if (type === "CreatedAt" || type === "UpdatedAt") {
+      // Stamp new rows with the current time
+      sqliteType += ` DEFAULT (${SQLITE_NOW})`;
     }
 
     // Add UNIQUE or INDEX if specified
@@ -74,6 +192,28 @@ export class SQLDBPlus {
       sqliteType += " UNIQUE";
     }
 
+    // Enforce Enum options and minimum/maximum limits in the database
+    const checks: string[] = [];
+    if (type === "Enum" && options && options.length > 0) {
+      const values = options.map((o: string) =>
+        this.formatDefaultValue(o, type)
+      );
+      checks.push(`${name} IN (${values.join(", ")})`);
+    } else if (
+      ["Integer", "Currency", "Float", "Double", "Decimal"].includes(type)
+    ) {
+      if (minimum !== undefined) checks.push(`${name} >= ${Number(minimum)}`);
+      if (maximum !== undefined) checks.push(`${name} <= ${Number(maximum)}`);
+    } else if (type === "Text" || type === "Password") {
+      if (minimum !== undefined)
+        checks.push(`length(${name}) >= ${Number(minimum)}`);
+      if (maximum !== undefined)
+        checks.push(`length(${name}) <= ${Number(maximum)}`);
+    }
+    if (checks.length > 0) {
+      sqliteType += ` CHECK (${checks.join(" AND ")})`;
+    }
+
     return `${name} ${sqliteType}`;
   }
 
@@ -123,17 +263,32 @@ export class SQLDBPlus {
   async schemaDrop(name: string): Promise<void> {
     const sql = `DROP TABLE IF EXISTS ${name}`;
     await this.sqliteInterface.execSql(sql);
+    await this.deleteDefinition(name);
   }
 
   async schemaDropField(tableName: string, fieldName: string): Promise<void> {
     // SQLite now supports DROP COLUMN directly
     const sql = `ALTER TABLE ${tableName} DROP COLUMN ${fieldName}`;
     await this.sqliteInterface.execSql(sql);
+
+    const tableDefinition = await this.describeTable(tableName);
+    if (tableDefinition) {
+      await this.writeDefinition({
+        ...tableDefinition,
+        fields: tableDefinition.fields.filter((f) => f.name !== fieldName),
+      });
+    }
   }
 
   async schemaRename(oldName: string, newName: string): Promise<void> {
     const sql = `ALTER TABLE ${oldName} RENAME TO ${newName}`;
     await this.sqliteInterface.execSql(sql);
+
+    const tableDefinition = await this.describeTable(oldName);
+    if (tableDefinition) {
+      await this.deleteDefinition(oldName);
+      await this.writeDefinition({ ...tableDefinition, name: newName });
+    }
   }
 
   async schemaRenameField(
@@ -144,9 +299,23 @@ export class SQLDBPlus {
     // SQLite now supports RENAME COLUMN directly
     const sql = `ALTER TABLE ${schema} RENAME COLUMN ${oldName} TO ${newName}`;
     await this.sqliteInterface.execSql(sql);
+
+    const tableDefinition = await this.describeTable(schema);
+    if (tableDefinition) {
+      await this.writeDefinition({
+        ...tableDefinition,
+        fields: tableDefinition.fields.map((f) =>
+          f.name === oldName ? { ...f, name: newName } : f
+        ),
+      });
+    }
   }
 
-  async schemaConnect(parentName: string, childName: string): Promise<void> {
+  async schemaConnect(
+    parentName: string,
+    childName: string,
+    options: { onDelete?: Action; onUpdate?: Action } = {}
+  ): Promise<void> {
     const foreignKeyField = `${_.camelCase(parentName)}Id`;
 
     // Check if the foreign key column exists
@@ -160,7 +329,13 @@ export class SQLDBPlus {
 
     if (!columnExists) {
       // Add the foreign key column
-      const sql = `ALTER TABLE ${childName} ADD COLUMN ${foreignKeyField} INTEGER REFERENCES ${parentName}(id)`;
+      let sql = `ALTER TABLE ${childName} ADD COLUMN ${foreignKeyField} INTEGER REFERENCES ${parentName}(id)`;
+      if (options.onDelete) {
+        sql += ` ON DELETE ${options.onDelete.replace("_", " ")}`;
+      }
+      if (options.onUpdate) {
+        sql += ` ON UPDATE ${options.onUpdate.replace("_", " ")}`;
+      }
       await this.sqliteInterface.execSql(sql);
     }
   }
@@ -170,52 +345,130 @@ export class SQLDBPlus {
     return await this.sqliteInterface.querySql(sql);
   }
 
-  async startTransaction(autoCommit = false): Promise<SQLDBPlus> {
-    if (this.transactionOpen) {
-      return this;
+  // Inside a transaction this starts a nested transaction on a SAVEPOINT:
+  // committing it releases the savepoint and rolling it back only undoes the
+  // work done since it was started. The mode applies to outermost ones.
+  async startTransaction(
+    autoCommit = false,
+    mode: TransactionMode = "deferred"
+  ): Promise<SQLDBPlus> {
+    const depth = this.transactions.length;
+    if (depth === 0) {
+      await this.sqliteInterface.execSql(
+        `BEGIN ${mode.toUpperCase()} TRANSACTION`
+      );
+    } else {
+      await this.sqliteInterface.execSql(`SAVEPOINT ${this.savepoint(depth)}`);
     }
-
-    await this.sqliteInterface.execSql("BEGIN TRANSACTION");
-    this.transactionOpen = true;
-    this.autoCommit = autoCommit;
+    this.transactions.push(autoCommit);
     return this;
   }
 
   async commitTransaction(): Promise<void> {
-    if (!this.transactionOpen) {
+    if (this.transactions.length === 0) {
       throw new Error("Not in a transaction");
     }
 
-    await this.sqliteInterface.execSql("COMMIT");
-    this.transactionOpen = false;
+    const depth = this.transactions.length - 1;
+    if (depth === 0) {
+      await this.sqliteInterface.execSql("COMMIT");
+    } else {
+      await this.sqliteInterface.execSql(
+        `RELEASE SAVEPOINT ${this.savepoint(depth)}`
+      );
+    }
+    this.transactions.pop();
   }
 
   async rollbackTransaction(): Promise<void> {
-    if (!this.transactionOpen) {
+    if (this.transactions.length === 0) {
       throw new Error("Not in a transaction");
     }
 
-    await this.sqliteInterface.execSql("ROLLBACK");
-    this.transactionOpen = false;
+    this.transactions.pop();
+    const depth = this.transactions.length;
+    if (depth === 0) {
+      await this.sqliteInterface.execSql("ROLLBACK");
+    } else {
+      // ROLLBACK TO keeps the savepoint open, so release it as well
+      const savepoint = this.savepoint(depth);
+      await this.sqliteInterface.execSql(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      await this.sqliteInterface.execSql(`RELEASE SAVEPOINT ${savepoint}`);
+    }
+  }
+
+  // Name of the savepoint of the nested transaction at the given depth
+  private savepoint(depth: number): string {
+    return `sp_${depth}`;
   }
 
   async releaseTransaction(): Promise<void> {
-    if (!this.transactionOpen) {
+    if (this.transactions.length === 0) {
       return;
     }
 
-    if (this.autoCommit) {
+    if (_.last(this.transactions)) {
       await this.commitTransaction();
     } else {
       await this.rollbackTransaction();
     }
   }
 
+  // Runs the callback in a transaction that is committed when it resolves and
+  // rolled back when it throws. When the database is busy or locked the
+  // transaction is retried with backoff, so the callback must be safe to run
+  // again. Inside a transaction the callback runs on a savepoint without
+  // retries.
+  async transaction<T>(
+    callback: (tx: SQLDBPlus) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
+    const depth = this.transactions.length;
+    const retries = options.retries ?? TRANSACTION_RETRIES;
+    const retryDelay = options.retryDelay ?? TRANSACTION_RETRY_DELAY;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.startTransaction(false, options.mode);
+        const result = await callback(this);
+        await this.commitTransaction();
+        return result;
+      } catch (error) {
+        if (this.transactions.length > depth) {
+          // A failing rollback must not hide the original error
+          await this.rollbackTransaction().catch(() => undefined);
+        }
+        if (depth > 0 || attempt >= retries || !isBusyError(error)) {
+          throw error;
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, retryDelay * 2 ** attempt)
+        );
+      }
+    }
+  }
+
   async rawQuery(query: string, args: any[]): Promise<any> {
     return await this.sqliteInterface.querySql(query, args);
   }
 
-  async insert(tableName: string, data: Record<string, any>): Promise<number> {
+  // Resolves with the id of the new row, or with the persisted row including
+  // defaults and timestamps when called with { returning: true }
+  insert(
+    tableName: string,
+    data: Record<string, any>,
+    options?: { returning?: false }
+  ): Promise<number>;
+  insert(
+    tableName: string,
+    data: Record<string, any>,
+    options: { returning: true }
+  ): Promise<Record<string, any>>;
+  async insert(
+    tableName: string,
+    data: Record<string, any>,
+    options: WriteOptions = {}
+  ): Promise<number | Record<string, any>> {
     const columns = Object.keys(data);
     const values = Object.values(data);
     const placeholders = values.map(() => "?").join(", ");
@@ -230,14 +483,32 @@ export class SQLDBPlus {
     const result = await this.sqliteInterface.querySql(
       "SELECT last_insert_rowid() as id"
     );
-    return result[0].id;
+    if (!options.returning) {
+      return result[0].id;
+    }
+    return (await this.reselect(tableName, result[0].id))!;
   }
 
+  // Resolves with the persisted row, or null when no row has the id, when
+  // called with { returning: true }
+  update(
+    tableName: string,
+    id: number,
+    data: Record<string, any>,
+    options?: { returning?: false }
+  ): Promise<void>;
+  update(
+    tableName: string,
+    id: number,
+    data: Record<string, any>,
+    options: { returning: true }
+  ): Promise<Record<string, any> | null>;
   async update(
     tableName: string,
     id: number,
-    data: Record<string, any>
-  ): Promise<void> {
+    data: Record<string, any>,
+    options: WriteOptions = {}
+  ): Promise<Record<string, any> | null | void> {
     const setClause = Object.keys(data)
       .map((key) => `${key} = ?`)
       .join(", ");
@@ -247,15 +518,144 @@ export class SQLDBPlus {
     const sql = `UPDATE ${tableName} SET ${setClause} WHERE id = ?`;
 
     await this.sqliteInterface.execSql(sql, values);
+
+    if (options.returning) {
+      return await this.reselect(tableName, id);
+    }
   }
 
-  async upsert(tableName: string, data: Record<string, any>): Promise<number> {
-    if (data.id) {
-      await this.update(tableName, data.id, data);
-      return data.id;
-    } else {
+  // Reads a written row back instead of using RETURNING, which reports rows
+  // before the AFTER triggers stamping UpdatedAt fields ran
+  private async reselect(
+    tableName: string,
+    id: number
+  ): Promise<Record<string, any> | null> {
+    const [row] = await this.sqliteInterface.querySql(
+      `SELECT * FROM ${tableName} WHERE id = ?`,
+      [id]
+    );
+    const tableDefinition = await this.describeTable(tableName);
+    return row ? this.hydrateRow(tableDefinition, row) : null;
+  }
+
+  // Converts stored values back to the types of their cataloged fields: 0/1
+  // to booleans, date strings to Dates and Currency and Decimal to strings of
+  // the stored value, never rounded
+  private hydrateRow(
+    tableDefinition: TableDefinitionPlus | undefined,
+    row: Record<string, any>
+  ): Record<string, any> {
+    if (!tableDefinition) return row;
+
+    const hydrated = { ...row };
+    for (const field of tableDefinition.fields) {
+      const value = hydrated[field.name];
+      if (value === null || value === undefined) continue;
+
+      if (field.type === "Boolean") {
+        hydrated[field.name] = !!Number(value);
+      } else if (DATE_FIELD_TYPES.includes(field.type)) {
+        hydrated[field.name] = new Date(value);
+      } else if (DECIMAL_FIELD_TYPES.includes(field.type)) {
+        hydrated[field.name] = String(value);
+      }
+    }
+    return hydrated;
+  }
+
+  // Inserts the row, or updates the existing row with the same values in the
+  // conflictOn columns with INSERT ... ON CONFLICT DO UPDATE. conflictOn must
+  // be the id or a unique index of the table; without it the first of those
+  // with values in the data is used. Returns the id of the row.
+  async upsert(
+    tableName: string,
+    data: Record<string, any>,
+    options: UpsertOptions = {}
+  ): Promise<number> {
+    const uniqueKeys = [["id"], ...(await this.getUniqueKeys(tableName))];
+    const conflictOn =
+      options.conflictOn ??
+      uniqueKeys.find((key) => key.every((field) => data[field] != null));
+    if (!conflictOn) {
       return await this.insert(tableName, data);
     }
+    if (!uniqueKeys.some((key) => _.xor(key, conflictOn).length === 0)) {
+      const fields = conflictOn.join(", ");
+      throw new Error(
+        `Table '${tableName}' has no unique index on (${fields})`
+      );
+    }
+    // The row is read back by these values, which must identify it
+    const missing = conflictOn.filter((field) => data[field] == null);
+    if (missing.length > 0) {
+      const fields = missing.join(", ");
+      throw new Error(
+        `Upsert of '${tableName}' requires values for (${fields})`
+      );
+    }
+
+    const columns = Object.keys(data);
+    const merge =
+      options.merge ?? columns.filter((column) => !conflictOn.includes(column));
+    const condition = conflictOn.map((c) => `${c} = ?`).join(" AND ");
+
+    // A row missing required columns cannot be inserted, so it only updates
+    // the existing row, e.g. upsert("users", { id, name })
+    const tableInfo = await this.sqliteInterface.querySql(
+      `PRAGMA table_info(${tableName})`
+    );
+    const partial = tableInfo.some(
+      (column) =>
+        !column.pk &&
+        column.notnull &&
+        column.dflt_value === null &&
+        data[column.name] === undefined
+    );
+    if (partial) {
+      const [existing] = await this.sqliteInterface.querySql(
+        `SELECT id FROM ${tableName} WHERE ${condition}`,
+        conflictOn.map((c) => data[c])
+      );
+      if (existing) {
+        if (merge.length > 0) {
+          await this.update(tableName, existing.id, _.pick(data, merge));
+        }
+        return existing.id;
+      }
+    }
+
+    const names = columns.join(", ");
+    const values = columns.map(() => "?").join(", ");
+    const target = conflictOn.join(", ");
+    const action =
+      merge.length > 0
+        ? `DO UPDATE SET ${merge.map((c) => `${c} = excluded.${c}`).join(", ")}`
+        : "DO NOTHING";
+    await this.sqliteInterface.execSql(
+      `INSERT INTO ${tableName} (${names}) VALUES (${values}) ON CONFLICT (${target}) ${action}`,
+      Object.values(data)
+    );
+
+    const [row] = await this.sqliteInterface.querySql(
+      `SELECT id FROM ${tableName} WHERE ${condition}`,
+      conflictOn.map((c) => data[c])
+    );
+    return row.id;
+  }
+
+  // Columns of the unique indexes of a table, including UNIQUE columns
+  private async getUniqueKeys(tableName: string): Promise<string[][]> {
+    const indexes = await this.sqliteInterface.querySql(
+      `PRAGMA index_list(${tableName})`
+    );
+    const keys: string[][] = [];
+    for (const index of indexes.filter((i) => i.unique)) {
+      const columns = await this.sqliteInterface.querySql(
+        `PRAGMA index_info(${index.name})`
+      );
+      keys.push(columns.map((c) => c.name));
+    }
+    return keys;
   }
 
   async delete(tableName: string, ids: number[]): Promise<void> {
@@ -265,10 +665,9 @@ export class SQLDBPlus {
     await this.sqliteInterface.execSql(sql, ids);
   }
 
-  private rewriteQuery(query: WherePlus, tableName?: string): any {
-    if (!query) return null;
-
-    // Handle OR conditions
+  // Prefixes the fields of the conditions with their table name, keeping the
+  // { field, cmp, value } shape that buildWhereSQL reads
+  private rewriteQuery(query: WherePlus, tableName: string): WherePlus {
     if ("Or" in query) {
       return {
         Or: query.Or.map((condition) =>
@@ -277,7 +676,6 @@ export class SQLDBPlus {
       };
     }
 
-    // Handle AND conditions
     if ("And" in query) {
       return {
         And: query.And.map((condition) =>
@@ -286,42 +684,45 @@ export class SQLDBPlus {
       };
     }
 
-    // Handle comparison conditions
-    if ("field" in query && "cmp" in query && "value" in query) {
-      // Don't add table prefix if it's already prefixed
-      const field = query.field.includes(".")
-        ? query.field
-        : tableName
-        ? `${tableName}.${query.field}`
-        : query.field;
-      return {
-        left: field,
-        leftType: "Field",
-        cmp: query.cmp,
-        right: query.value,
-        rightType: "SearchString",
-      };
-    }
-
-    return query;
+    // Don't add table prefix if it's already prefixed
+    return query.field.includes(".")
+      ? query
+      : { ...query, field: `${tableName}.${query.field}` };
   }
 
   async query(query: QueryPlus): Promise<any[]> {
-    // Transform the query if it's a QueryPlus
-    if (query.table && query.table.length > 0) {
-      // Transform each table query
-      for (const t of query.table) {
-        if (t.query) {
-          t.query = this.rewriteQuery(t.query, t.table);
-        }
-      }
-    }
-
-    // Build the SQL query
-    const { sql, params } = this.buildQuerySQL(query);
+    // Build the SQL query on a copy, leaving the caller's query as it is
+    const { sql, params } = this.buildQuerySQL({
+      ...query,
+      table: query.table.map((t) =>
+        t.query ? { ...t, query: this.rewriteQuery(t.query, t.table) } : t
+      ),
+    });
 
     // Execute the query
-    return await this.sqliteInterface.querySql(sql, params);
+    // Values come back with the types of the fields of the queried tables
+    const rows = await this.sqliteInterface.querySql(sql, params);
+    const definitions = (
+      await Promise.all(query.table.map((t) => this.describeTable(t.table)))
+    ).filter((definition): definition is TableDefinitionPlus => !!definition);
+    // Joined columns come back by bare name, so a name defined by several
+    // tables cannot be told apart and is left as stored
+    const names = _.countBy(
+      definitions.flatMap((definition) =>
+        _.uniq(definition.fields.map((f) => f.name))
+      )
+    );
+    const own = definitions.map((definition) => ({
+      ...definition,
+      fields: definition.fields.filter((f) => names[f.name] === 1),
+    }));
+    return rows.map((row) =>
+      own.reduce(
+        (hydrated, tableDefinition) =>
+          this.hydrateRow(tableDefinition, hydrated),
+        row
+      )
+    );
   }
 
   private buildQuerySQL(query: QueryPlus): { sql: string; params: any[] } {
@@ -406,9 +807,42 @@ export class SQLDBPlus {
         return `(${whereSql})`;
       });
       whereSql = andConditions.join(" AND ");
-    } else if ("field" in where && "cmp" in where && "value" in where) {
+    } else if ("field" in where && "cmp" in where) {
       const { field, cmp, value } = where;
 
+      // Operators that are not a plain binary comparison
+      switch (cmp) {
+        case "isNull":
+          return { whereSql: `${field} IS NULL`, whereParams: [] };
+        case "isNotNull":
+          return { whereSql: `${field} IS NOT NULL`, whereParams: [] };
+        case "between":
+          if (!Array.isArray(value) || value.length !== 2) {
+            throw new Error(
+              "BETWEEN operator requires a [min, max] array value"
+            );
+          }
+          return { whereSql: `${field} BETWEEN ? AND ?`, whereParams: value };
+        case "startsWith":
+          return {
+            whereSql: `${field} LIKE ? ESCAPE '!'`,
+            whereParams: [`${escapeLike(String(value))}%`],
+          };
+        case "endsWith":
+          return {
+            whereSql: `${field} LIKE ? ESCAPE '!'`,
+            whereParams: [`%${escapeLike(String(value))}`],
+          };
+        case "ilike":
+          return {
+            whereSql: `lower(${field}) LIKE lower(?)`,
+            whereParams: [`%${value}%`],
+          };
+        case "regex":
+          // node-sqlite3 cannot register the regexp() function REGEXP calls
+          throw new Error("The regex operator is not supported on SQLite");
+      }
+
       // Map comparison operators to SQL
       let operator = "";
       switch (cmp) {
@@ -27,22 +27,43 @@ export type Action = "CASCADE" | "SET_NULL" | "RESTRICT" | "NO_ACTION";
 /**
  * Helper type for one-to-one relationships
  */
-export type OneToOne<T, R> = Relation<T, R, "1_1", "CASCADE">;
+export type OneToOne<T, R, A extends Action = "CASCADE"> = Relation<
+  T,
+  R,
+  "1_1",
+  A
+>;
 
 /**
  * Helper type for one-to-many relationships
  */
-export type OneToMany<T, R> = Relation<T, R, "1_n", "CASCADE">;
+export type OneToMany<T, R, A extends Action = "CASCADE"> = Relation<
+  T,
+  R,
+  "1_n",
+  A
+>;
 
 /**
- * Helper type for many-to-one relationships
+ * Helper type for many-to-one relationships, e.g.
+ * `ManyToOne<number, User, "SET_NULL">` keeps the row when the user is deleted
  */
-export type ManyToOne<T, R> = Relation<T, R, "n_1", "CASCADE">;
+export type ManyToOne<T, R, A extends Action = "CASCADE"> = Relation<
+  T,
+  R,
+  "n_1",
+  A
+>;
 
 /**
  * Helper type for many-to-many relationships
  */
-export type ManyToMany<T, R> = Relation<T, R, "n_n", "CASCADE">;
+export type ManyToMany<T, R, A extends Action = "CASCADE"> = Relation<
+  T,
+  R,
+  "n_n",
+  A
+>;
 
 export type PrimaryKey<T> = T;
 export type Unique<T> = T;
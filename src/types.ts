@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { Cmp } from './core-js-wrapper';
 
 // Base type for database tables
 export type DB<T extends Record<string, any>> = {
@@ -8,13 +9,36 @@ export type DB<T extends Record<string, any>> = {
   query(): QueryBuilder<T>;
 };
 
-// Query builder interface
-export interface QueryBuilder<T> {
-  where(field: keyof T, operator: string, value: any): QueryBuilder<T>;
-  orderBy(field: keyof T, direction?: 'asc' | 'desc'): QueryBuilder<T>;
-  limit(count: number): QueryBuilder<T>;
-  get(): Promise<T[]>;
-  first(): Promise<T | null>;
+// Comparison operators: SQL symbols or the values of Cmp
+export type Operator = '=' | '!=' | '<' | '<=' | '>' | '>=' | `${Cmp}`;
+
+// Arguments after the operator when comparing a field of type V
+export type OperatorArgs<V, O extends Operator> = O extends
+  | 'isNull'
+  | 'isNotNull'
+  ? []
+  : O extends 'in' | 'nin'
+  ? [value: V[]]
+  : O extends 'between'
+  ? [value: [V, V]]
+  : O extends 'like' | 'nlike' | 'ilike' | 'startsWith' | 'endsWith' | 'regex'
+  ? [value: string]
+  : [value: V];
+
+// Query builder interface, loading rows of type R
+export interface QueryBuilder<T, R = T> {
+  where<K extends keyof T & string, O extends Operator>(
+    field: K,
+    operator: O,
+    ...value: OperatorArgs<T[K], O>
+  ): QueryBuilder<T, R>;
+  orderBy(
+    field: keyof T & string,
+    direction?: 'asc' | 'desc'
+  ): QueryBuilder<T, R>;
+  limit(count: number): QueryBuilder<T, R>;
+  get(): Promise<R[]>;
+  first(): Promise<R | null>;
 }
 
 // Schema field types
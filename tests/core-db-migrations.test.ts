@@ -0,0 +1,198 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CoreDB } from "../src/core-db";
+import {
+  MIGRATIONS_TABLE,
+  Migration,
+  MigrationRunner,
+} from "../src/core-db-migrations";
+
+describe("CoreDB Migrations", () => {
+  const TEST_DB = "test-migrations.sqlite";
+  let db: CoreDB;
+
+  const migrations: Migration[] = [
+    {
+      version: "001",
+      name: "create_users",
+      up: async (db) => {
+        await db.schemaCreateOrUpdate({
+          name: "users",
+          implementation: "Static",
+          fields: [{ name: "name", type: "Text", required: true }],
+        });
+      },
+      down: async (db) => {
+        await db.schemaDrop("users");
+      },
+    },
+    {
+      version: "002",
+      name: "create_posts",
+      up: async (db) => {
+        await db.schemaCreateOrUpdate({
+          name: "posts",
+          implementation: "Static",
+          fields: [{ name: "title", type: "Text" }],
+        });
+      },
+      down: async (db) => {
+        await db.schemaDrop("posts");
+      },
+    },
+  ];
+
+  beforeEach(() => {
+    db = new CoreDB(TEST_DB);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    if (fs.existsSync(TEST_DB)) {
+      fs.unlinkSync(TEST_DB);
+    }
+  });
+
+  it("should apply pending migrations in order and record them", async () => {
+    const runner = new MigrationRunner(db, [...migrations].reverse());
+    const applied = await runner.up();
+
+    expect(applied.map((m) => m.version)).toEqual(["001", "002"]);
+
+    const records = await db.query({ table: [{ table: MIGRATIONS_TABLE }] });
+    expect(records.map((r) => r.version)).toEqual(["001", "002"]);
+    expect(records[0].checksum).toHaveLength(64);
+
+    // Running again is a no-op
+    expect(await runner.up()).toHaveLength(0);
+  });
+
+  it("should stop at the target version", async () => {
+    const runner = new MigrationRunner(db, migrations);
+    await runner.up("001");
+
+    const status = await runner.status();
+    expect(status.map((s) => s.applied)).toEqual([true, false]);
+  });
+
+  it("should revert the latest migrations", async () => {
+    const runner = new MigrationRunner(db, migrations);
+    await runner.up();
+
+    const reverted = await runner.down();
+    expect(reverted.map((m) => m.version)).toEqual(["002"]);
+    await expect(db.query({ table: [{ table: "posts" }] })).rejects.toThrow();
+
+    const status = await runner.status();
+    expect(status.map((s) => s.applied)).toEqual([true, false]);
+  });
+
+  it("should roll back a failing migration", async () => {
+    const runner = new MigrationRunner(db, [
+      migrations[0],
+      {
+        version: "002",
+        name: "broken",
+        up: async (db) => {
+          await db.insert("users", { name: "Jane" });
+          throw new Error("boom");
+        },
+        down: async () => {},
+      },
+    ]);
+
+    await expect(runner.up()).rejects.toThrow(
+      "Migration 002_broken failed: boom"
+    );
+    expect(await db.query({ table: [{ table: "users" }] })).toHaveLength(0);
+
+    const status = await runner.status();
+    expect(status.map((s) => s.applied)).toEqual([true, false]);
+  });
+
+  it("should rebuild tables without deleting the rows referencing them", async () => {
+    const users = (required: boolean): Migration => ({
+      version: required ? "003" : "001",
+      name: required ? "require_user_name" : "create_users",
+      up: async (db) => {
+        await db.schemaCreateOrUpdate({
+          name: "users",
+          implementation: "Static",
+          fields: [{ name: "name", type: "Text", required }],
+        });
+      },
+      down: async () => {},
+    });
+    const posts: Migration = {
+      version: "002",
+      name: "create_posts",
+      up: async (db) => {
+        await db.schemaCreateOrUpdate({
+          name: "posts",
+          implementation: "Static",
+          fields: [
+            { name: "title", type: "Text" },
+            {
+              name: "usersId",
+              type: "ReferenceManyToOne",
+              foreignTable: "users",
+            },
+          ],
+        });
+      },
+      down: async () => {},
+    };
+
+    await new MigrationRunner(db, [users(false), posts]).up();
+    const usersId = await db.insert("users", { name: "Jane" });
+    await db.insert("posts", { title: "Hello", usersId });
+
+    const plan = await db.planSchemaChange({
+      name: "users",
+      implementation: "Static",
+      fields: [{ name: "name", type: "Text", required: true }],
+    });
+    expect(plan.operations.map((op) => op.type)).toContain("rebuildTable");
+
+    await new MigrationRunner(db, [users(false), posts, users(true)]).up();
+
+    expect(await db.query({ table: [{ table: "users" }] })).toHaveLength(1);
+    expect(await db.query({ table: [{ table: "posts" }] })).toHaveLength(1);
+  });
+
+  it("should refuse to run when an applied migration changed", async () => {
+    await new MigrationRunner(db, migrations).up("001");
+
+    const changed = new MigrationRunner(db, [
+      { ...migrations[0], checksum: "edited" },
+      migrations[1],
+    ]);
+
+    const status = await changed.status();
+    expect(status[0].checksumMismatch).toBe(true);
+    await expect(changed.up()).rejects.toThrow("Checksum mismatch");
+  });
+
+  it("should load migrations from a directory", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "migrations-"));
+    try {
+      fs.writeFileSync(
+        path.join(dir, "001_create_tags.js"),
+        `exports.up = async (db) => db.schemaCreateOrUpdate({ name: "tags", implementation: "Static", fields: [{ name: "label", type: "Text" }] });
+exports.down = async (db) => db.schemaDrop("tags");
+`
+      );
+      fs.writeFileSync(path.join(dir, "README.md"), "ignored");
+
+      const runner = MigrationRunner.fromDirectory(db, dir);
+      const applied = await runner.up();
+
+      expect(applied).toHaveLength(1);
+      expect(applied[0].name).toBe("create_tags");
+      await db.insert("tags", { label: "news" });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
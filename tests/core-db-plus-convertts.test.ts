@@ -152,6 +152,36 @@ describe("CoreDBPlus Transformer", () => {
       expect(schema).toContain('name: "role"');
       expect(schema).toContain('await db.schemaConnect("user", "role")');
     });
+
+    it("should carry foreign key actions", () => {
+      const content = `
+        import { ManyToOne, Relation } from "../src/tstypes";
+
+        export type User = {
+          id: string;
+          name: string;
+        };
+
+        export type Audit = {
+          id: string;
+          userId: ManyToOne<number, User, "SET_NULL">;
+          action: string;
+        };
+
+        export type Invoice = {
+          id: string;
+          userId: Relation<number, User, "n_1", "RESTRICT">;
+        };
+      `;
+      const schema = runTransformer(createTempTypeFile(content));
+
+      expect(schema).toContain(
+        'await db.schemaConnect("user", "audit", { onDelete: "SET_NULL" })'
+      );
+      expect(schema).toContain(
+        'await db.schemaConnect("user", "invoice", { onDelete: "RESTRICT" })'
+      );
+    });
   });
 
   describe("Decorator Handling", () => {
@@ -1,4 +1,13 @@
-import { CoreDB, TableDefinition, FieldType } from "../src/core-db";
+import {
+  CoreDB,
+  CursorPage,
+  TableDefinition,
+  FieldType,
+  Query,
+  Where,
+  WhereCmp,
+} from "../src/core-db";
+import { getTableDefinition } from "../src/core-db-utils";
 import fs from "fs";
 import path from "path";
 
@@ -209,6 +218,672 @@ describe("CoreDB", () => {
           db.schemaConnect("authors", "books")
         ).resolves.not.toThrow();
       });
+
+      it("should keep child rows with onDelete SET_NULL", async () => {
+        await db.schemaCreateOrUpdate(authorTableDef);
+        await db.schemaCreateOrUpdate({
+          name: "audits",
+          implementation: "Static",
+          fields: [
+            { name: "action", type: "Text" as FieldType },
+            {
+              name: "authorsId",
+              type: "ReferenceManyToOne" as FieldType,
+              foreignTable: "authors",
+              onDelete: "SET_NULL",
+            },
+          ],
+        });
+
+        const authorId = await db.insert("authors", { name: "Jane" });
+        await db.insert("audits", { action: "login", authorsId: authorId });
+        await db.delete("authors", [authorId]);
+
+        const audits = await db.query({ table: [{ table: "audits" }] });
+        expect(audits).toHaveLength(1);
+        expect(audits[0].authorsId).toBeNull();
+      });
+
+      it("should connect tables with RESTRICT and change the action later", async () => {
+        await db.schemaCreateOrUpdate(authorTableDef);
+        await db.schemaCreateOrUpdate(bookTableDef);
+        await db.schemaConnect("authors", "books", { onDelete: "RESTRICT" });
+
+        const authorId = await db.insert("authors", { name: "Jane" });
+        await db.insert("books", { title: "Book", authorsId: authorId });
+        await expect(db.delete("authors", [authorId])).rejects.toThrow(
+          "FOREIGN KEY constraint failed"
+        );
+
+        // Changing the action rebuilds the table and keeps the rows
+        await db.schemaConnect("authors", "books", { onDelete: "CASCADE" });
+        const [fk] = await db.getForeignKeys("books");
+        expect(fk.on_delete).toBe("CASCADE");
+        expect(
+          (await db.schemaDescribe("books"))!.fields.find(
+            (f) => f.name === "authorsId"
+          )!.onDelete
+        ).toBe("CASCADE");
+
+        await db.delete("authors", [authorId]);
+        expect(await db.query({ table: [{ table: "books" }] })).toHaveLength(0);
+      });
+
+      it("should plan a rebuild when the foreign key action changes", async () => {
+        await db.schemaCreateOrUpdate(authorTableDef);
+        const def: TableDefinition = {
+          name: "books",
+          implementation: "Static",
+          fields: [
+            { name: "title", type: "Text" as FieldType },
+            {
+              name: "authorsId",
+              type: "ReferenceManyToOne" as FieldType,
+              foreignTable: "authors",
+            },
+          ],
+        };
+        await db.schemaCreateOrUpdate(def);
+
+        const fields = [
+          def.fields[0],
+          { ...def.fields[1], onDelete: "RESTRICT" as const },
+        ];
+        const plan = await db.planSchemaChange({ ...def, fields });
+        expect(plan.operations.map((op) => op.type)).toEqual([
+          "changeForeignKey",
+          "rebuildTable",
+        ]);
+
+        await db.schemaCreateOrUpdate({ ...def, fields });
+        const [fk] = await db.getForeignKeys("books");
+        expect(fk.on_delete).toBe("RESTRICT");
+      });
+
+      it("should reject SET_NULL on required fields", async () => {
+        await db.schemaCreateOrUpdate(authorTableDef);
+        await expect(
+          db.schemaCreateOrUpdate({
+            name: "books",
+            implementation: "Static",
+            fields: [
+              {
+                name: "authorsId",
+                type: "ReferenceManyToOne" as FieldType,
+                foreignTable: "authors",
+                required: true,
+                onDelete: "SET_NULL",
+              },
+            ],
+          })
+        ).rejects.toThrow(
+          "Field 'authorsId' is required and cannot use SET_NULL as a foreign key action"
+        );
+      });
+    });
+
+    describe("Many-to-Many Relationships", () => {
+      const tagTableDef: TableDefinition = {
+        name: "tags",
+        implementation: "Static",
+        fields: [{ name: "label", type: "Text" as FieldType, required: true }],
+      };
+
+      const postTableDef: TableDefinition = {
+        name: "posts",
+        implementation: "Static",
+        fields: [
+          { name: "title", type: "Text" as FieldType, required: true },
+          {
+            name: "tags",
+            type: "ReferenceManyToMany" as FieldType,
+            foreignTable: "tags",
+          },
+        ],
+      };
+
+      let postIds: number[];
+      let tagIds: number[];
+
+      beforeEach(async () => {
+        await db.schemaCreateOrUpdate(tagTableDef);
+        await db.schemaCreateOrUpdate(postTableDef);
+        postIds = [
+          await db.insert("posts", { title: "First" }),
+          await db.insert("posts", { title: "Second" }),
+        ];
+        tagIds = [
+          await db.insert("tags", { label: "news" }),
+          await db.insert("tags", { label: "tech" }),
+        ];
+      });
+
+      it("should create a junction table for the field", async () => {
+        const columns = await db.rawQuery("PRAGMA table_info(posts_tags)", []);
+        expect(columns.map((c: any) => c.name)).toEqual([
+          "id",
+          "postsId",
+          "tagsId",
+        ]);
+
+        // Running the definition again does not touch the junction table
+        const plan = await db.planSchemaChange(postTableDef);
+        expect(plan.operations).toHaveLength(0);
+      });
+
+      it("should link records and return them nested in both directions", async () => {
+        await db.link("posts", postIds[0], "tags", tagIds);
+        await db.link("posts", postIds[1], "tags", tagIds[1]);
+        // Linking twice is ignored
+        await db.link("posts", postIds[1], "tags", [tagIds[1]]);
+
+        const posts = await db.query({
+          table: [{ table: "posts" }, { table: "tags" }],
+          sort: [{ fieldId: "id", direction: "asc" }],
+        });
+        expect(posts[0].tags.map((t: any) => t.label)).toEqual([
+          "news",
+          "tech",
+        ]);
+        expect(posts[1].tags).toHaveLength(1);
+        expect(posts[1].tags[0]).toMatchObject({
+          id: tagIds[1],
+          label: "tech",
+        });
+
+        const tags = await db.query({
+          table: [
+            { table: "tags" },
+            {
+              table: "posts",
+              query: {
+                left: "title",
+                leftType: "Field",
+                cmp: "eq",
+                right: "Second",
+                rightType: "Value",
+              },
+            },
+          ],
+          sort: [{ fieldId: "id", direction: "asc" }],
+        });
+        expect(tags[0].posts).toHaveLength(0);
+        expect(tags[1].posts.map((p: any) => p.title)).toEqual(["Second"]);
+      });
+
+      it("should unlink some or all related records", async () => {
+        await db.link("posts", postIds[0], "tags", tagIds);
+
+        await db.unlink("posts", postIds[0], "tags", tagIds[0]);
+        let [post] = await db.query({
+          table: [{ table: "posts" }, { table: "tags" }],
+          sort: [{ fieldId: "id", direction: "asc" }],
+        });
+        expect(post.tags.map((t: any) => t.label)).toEqual(["tech"]);
+
+        await db.unlink("posts", postIds[0], "tags");
+        [post] = await db.query({
+          table: [{ table: "posts" }, { table: "tags" }],
+          sort: [{ fieldId: "id", direction: "asc" }],
+        });
+        expect(post.tags).toHaveLength(0);
+      });
+
+      it("should remove links when a record is deleted", async () => {
+        await db.link("posts", postIds[0], "tags", tagIds);
+        await db.delete("tags", [tagIds[0]]);
+
+        const links = await db.rawQuery("SELECT * FROM posts_tags", []);
+        expect(links).toHaveLength(1);
+      });
+
+      it("should drop the junction table with its table", async () => {
+        await db.schemaDrop("posts");
+        const tables = await db.rawQuery(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='posts_tags'",
+          []
+        );
+        expect(tables).toHaveLength(0);
+      });
+
+      it("should reject link calls on other fields", async () => {
+        await expect(
+          db.link("posts", postIds[0], "title", tagIds)
+        ).rejects.toThrow(
+          "Field 'title' of table 'posts' is not a ReferenceManyToMany field"
+        );
+      });
+    });
+  });
+
+  describe("Schema Change Planning", () => {
+    const userTableDef: TableDefinition = {
+      name: "users",
+      implementation: "Static",
+      fields: [
+        { name: "name", type: "Text" as FieldType, required: true },
+        { name: "age", type: "Text" as FieldType },
+      ],
+    };
+
+    it("should plan a new table with its indexes", async () => {
+      const plan = await db.planSchemaChange({
+        ...userTableDef,
+        compoundIndexes: [{ fields: ["name", "age"], type: "Unique" }],
+      });
+
+      expect(plan.operations.map((op) => op.type)).toEqual([
+        "createTable",
+        "addIndex",
+      ]);
+      expect(plan.dataLoss).toBe(false);
+      // Planning does not touch the database
+      await expect(db.query({ table: [{ table: "users" }] })).rejects.toThrow();
+    });
+
+    it("should plan nothing for an unchanged table", async () => {
+      await db.schemaCreateOrUpdate({
+        ...userTableDef,
+        fields: [
+          ...userTableDef.fields,
+          { name: "role", type: "Text" as FieldType, defaultValue: "user" },
+        ],
+        compoundIndexes: [{ fields: ["name", "age"], type: "Default" }],
+      });
+
+      const plan = await db.planSchemaChange({
+        ...userTableDef,
+        fields: [
+          ...userTableDef.fields,
+          { name: "role", type: "Text" as FieldType, defaultValue: "user" },
+        ],
+        compoundIndexes: [{ fields: ["name", "age"], type: "Default" }],
+      });
+      expect(plan.operations).toEqual([]);
+    });
+
+    it("should plan nothing for unchanged boolean and numeric defaults", async () => {
+      // Definitions read from JSON carry booleans and numbers as defaults
+      const settingsTableDef: TableDefinition = JSON.parse(
+        JSON.stringify({
+          name: "settings",
+          implementation: "Static",
+          fields: [
+            { name: "enabled", type: "Boolean", defaultValue: true },
+            { name: "hidden", type: "Boolean", defaultValue: false },
+            { name: "retries", type: "Integer", defaultValue: 3 },
+            { name: "rate", type: "Decimal", defaultValue: "2.50" },
+          ],
+        })
+      );
+      await db.schemaCreateOrUpdate(settingsTableDef);
+
+      const plan = await db.planSchemaChange({
+        ...settingsTableDef,
+        fields: settingsTableDef.fields.map((field) =>
+          field.name === "rate" ? { ...field, defaultValue: "2.5" } : field
+        ),
+      });
+      expect(plan.operations).toEqual([]);
+    });
+
+    it("should plan added columns and indexes without a rebuild", async () => {
+      await db.schemaCreateOrUpdate(userTableDef);
+
+      const plan = await db.planSchemaChange({
+        ...userTableDef,
+        fields: [
+          ...userTableDef.fields,
+          { name: "email", type: "Text" as FieldType, indexed: "Unique" },
+        ],
+      });
+
+      expect(plan.operations).toEqual([
+        { type: "addColumn", table: "users", field: "email" },
+        {
+          type: "addIndex",
+          table: "users",
+          name: "idx_users_email",
+          fields: ["email"],
+          unique: true,
+        },
+      ]);
+    });
+
+    it("should warn about data loss when a rebuild converts values", async () => {
+      await db.schemaCreateOrUpdate(userTableDef);
+      await db.insert("users", { name: "John", age: "30" });
+
+      const changed: TableDefinition = {
+        ...userTableDef,
+        fields: [
+          { name: "name", type: "Text" as FieldType, required: true },
+          { name: "age", type: "Integer" as FieldType },
+        ],
+      };
+      const plan = await db.planSchemaChange(changed);
+
+      expect(plan.operations.map((op) => op.type)).toEqual([
+        "alterColumn",
+        "rebuildTable",
+      ]);
+      expect(plan.dataLoss).toBe(true);
+      expect(plan.warnings[0].field).toBe("age");
+
+      await expect(
+        db.schemaCreateOrUpdate(changed, { allowDataLoss: false })
+      ).rejects.toThrow("would lose data");
+    });
+
+    it("should keep data, extra columns and indexes when rebuilding", async () => {
+      await db.schemaCreateOrUpdate({
+        ...userTableDef,
+        fields: [
+          { name: "age", type: "Text" as FieldType },
+          { name: "name", type: "Text" as FieldType, indexed: "Unique" },
+          { name: "nickname", type: "Text" as FieldType },
+        ],
+      });
+      await db.insert("users", { name: "John", age: "30", nickname: "JD" });
+
+      const plan = await db.schemaCreateOrUpdate(userTableDef);
+      expect(plan.operations.map((op) => op.type)).toEqual([
+        "alterColumn",
+        "rebuildTable",
+      ]);
+
+      const users = await db.query({ table: [{ table: "users" }] });
+      expect(users).toEqual([
+        { id: 1, age: "30", name: "John", nickname: "JD" },
+      ]);
+      await expect(db.insert("users", { name: "John" })).rejects.toThrow();
+    });
+  });
+
+  describe("Schema Catalog", () => {
+    const productTableDef: TableDefinition = {
+      name: "products",
+      implementation: "Static",
+      description: "Things we sell",
+      fields: [
+        { name: "name", type: "Text", required: true, description: "Label" },
+        { name: "price", type: "Currency", minimum: 0, maximum: 1000 },
+        { name: "status", type: "Enum", options: ["draft", "live"] },
+        { name: "secret", type: "Password", ordering: 3 },
+        { name: "createdAt", type: "CreatedAt" },
+      ],
+      compoundIndexes: [{ fields: ["name", "status"], type: "Unique" }],
+    };
+
+    it("should round-trip the exact table definition", async () => {
+      await db.schemaCreateOrUpdate(productTableDef);
+
+      expect(await db.schemaDescribe("products")).toEqual(productTableDef);
+      expect(await getTableDefinition(db, "products")).toEqual(productTableDef);
+      expect(await db.schemaList()).toEqual([productTableDef]);
+    });
+
+    it("should keep the catalog in sync with schema changes", async () => {
+      await db.schemaCreateOrUpdate(productTableDef);
+      await db.schemaCreateOrUpdate({
+        name: "categories",
+        implementation: "Static",
+        fields: [{ name: "name", type: "Text" }],
+      });
+
+      await db.schemaRenameField("products", "name", "title");
+      await db.schemaDropField("products", "secret");
+      await db.schemaConnect("categories", "products");
+      await db.schemaRename("categories", "groups");
+
+      const products = await db.schemaDescribe("products");
+      expect(products!.fields.map((f) => f.name)).toEqual([
+        "title",
+        "price",
+        "status",
+        "createdAt",
+        "categoriesId",
+      ]);
+      expect(products!.fields[4]).toEqual({
+        name: "categoriesId",
+        type: "ReferenceManyToOne",
+        foreignTable: "groups",
+      });
+      expect(products!.compoundIndexes).toEqual([
+        { fields: ["title", "status"], type: "Unique" },
+      ]);
+      expect(await db.schemaDescribe("categories")).toBeUndefined();
+      expect((await db.schemaDescribe("groups"))!.name).toBe("groups");
+
+      await db.schemaDrop("groups");
+      expect(await db.schemaDescribe("groups")).toBeUndefined();
+    });
+
+    it("should keep fields that are left out of a later definition", async () => {
+      await db.schemaCreateOrUpdate(productTableDef);
+      await db.schemaCreateOrUpdate({
+        ...productTableDef,
+        fields: [{ name: "sku", type: "Text" }],
+        compoundIndexes: [],
+      });
+
+      const products = await db.schemaDescribe("products");
+      expect(products!.fields.map((f) => f.name)).toEqual([
+        "sku",
+        "name",
+        "price",
+        "status",
+        "secret",
+        "createdAt",
+      ]);
+    });
+  });
+
+  describe("Field Constraints", () => {
+    const productTableDef: TableDefinition = {
+      name: "products",
+      implementation: "Static",
+      fields: [
+        { name: "status", type: "Enum", options: ["draft", "live"] },
+        { name: "price", type: "Currency", minimum: 0, maximum: 100 },
+        { name: "code", type: "Text", minimum: 2, maximum: 4 },
+      ],
+    };
+
+    beforeEach(async () => {
+      await db.schemaCreateOrUpdate(productTableDef);
+    });
+
+    it("should validate enum options on insert, update and upsert", async () => {
+      const id = await db.insert("products", { status: "draft" });
+
+      await expect(db.insert("products", { status: "gone" })).rejects.toThrow(
+        "Field 'status' must be one of: draft, live"
+      );
+      await expect(
+        db.update("products", id, { status: "gone" })
+      ).rejects.toThrow("Field 'status' must be one of: draft, live");
+      await expect(
+        db.upsert("products", { id, status: "gone" })
+      ).rejects.toThrow("Field 'status' must be one of: draft, live");
+    });
+
+    it("should validate minimum and maximum", async () => {
+      await expect(db.insert("products", { price: -1 })).rejects.toThrow(
+        "Field 'price' must be at least 0"
+      );
+      await expect(db.insert("products", { price: 101 })).rejects.toThrow(
+        "Field 'price' must be at most 100"
+      );
+      await expect(db.insert("products", { code: "A" })).rejects.toThrow(
+        "Field 'code' must be at least 2 characters long"
+      );
+      await expect(
+        db.insert("products", { status: "live", price: 100, code: "ABCD" })
+      ).resolves.toBe(1);
+    });
+
+    it("should enforce the constraints in the database", async () => {
+      await expect(
+        db.rawQuery("INSERT INTO products (status) VALUES (?)", ["gone"])
+      ).rejects.toThrow("CHECK constraint failed");
+      await expect(
+        db.rawQuery("INSERT INTO products (price) VALUES (?)", [500])
+      ).rejects.toThrow("CHECK constraint failed");
+    });
+
+    it("should rebuild the table when constraints change", async () => {
+      await db.insert("products", { status: "live" });
+
+      const changed: TableDefinition = {
+        ...productTableDef,
+        fields: [
+          { name: "status", type: "Enum", options: ["draft"] },
+          ...productTableDef.fields.slice(1),
+        ],
+      };
+      const plan = await db.planSchemaChange(changed);
+
+      expect(plan.operations.map((op) => op.type)).toEqual([
+        "alterColumn",
+        "rebuildTable",
+      ]);
+      expect(plan.warnings[0].message).toContain("violate");
+      expect((await db.planSchemaChange(productTableDef)).operations).toEqual(
+        []
+      );
+    });
+  });
+
+  describe("Timestamps", () => {
+    const noteTableDef: TableDefinition = {
+      name: "notes",
+      implementation: "Static",
+      fields: [
+        { name: "body", type: "Text" },
+        { name: "createdAt", type: "CreatedAt" },
+        { name: "updatedAt", type: "UpdatedAt" },
+      ],
+    };
+    const wait = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+    it("should stamp CreatedAt and UpdatedAt on insert and update", async () => {
+      await db.schemaCreateOrUpdate(noteTableDef);
+
+      const id = await db.insert("notes", { body: "first" });
+      const [created] = await db.query({ table: [{ table: "notes" }] });
+      expect(created.createdAt).toEqual(expect.any(Date));
+      expect(created.updatedAt).toEqual(expect.any(Date));
+
+      await wait();
+      await db.update("notes", id, { body: "second" });
+      const [updated] = await db.query({ table: [{ table: "notes" }] });
+      expect(updated.createdAt).toEqual(created.createdAt);
+      expect(updated.updatedAt > created.updatedAt).toBe(true);
+
+      await wait();
+      await db.upsert("notes", { id, body: "third" });
+      const [upserted] = await db.query({ table: [{ table: "notes" }] });
+      expect(upserted.updatedAt > updated.updatedAt).toBe(true);
+    });
+
+    it("should keep explicitly provided timestamps", async () => {
+      await db.schemaCreateOrUpdate(noteTableDef);
+      const createdAt = new Date("2020-01-01T00:00:00.000Z");
+
+      await db.insert("notes", { body: "old", createdAt });
+      const [note] = await db.query({ table: [{ table: "notes" }] });
+      expect(note.createdAt).toEqual(createdAt);
+    });
+
+    it("should stamp raw writes through SQLite triggers", async () => {
+      await db.schemaCreateOrUpdate({
+        ...noteTableDef,
+        timestampTriggers: true,
+      });
+
+      await db.rawQuery("INSERT INTO notes (body) VALUES (?)", ["raw"]);
+      const [created] = await db.query({ table: [{ table: "notes" }] });
+      expect(created.createdAt).toEqual(expect.any(Date));
+      expect(created.updatedAt).toEqual(expect.any(Date));
+
+      await wait();
+      await db.rawQuery("UPDATE notes SET body = ?", ["changed"]);
+      const [updated] = await db.query({ table: [{ table: "notes" }] });
+      expect(updated.createdAt).toEqual(created.createdAt);
+      expect(updated.updatedAt > created.updatedAt).toBe(true);
+
+      // Turning the option off removes the triggers again
+      await db.schemaCreateOrUpdate(noteTableDef);
+      await db.rawQuery("INSERT INTO notes (body) VALUES (?)", ["plain"]);
+      const notes = await db.query({ table: [{ table: "notes" }] });
+      expect(notes[1].createdAt).toBeNull();
+    });
+  });
+
+  describe("Type Hydration", () => {
+    beforeEach(async () => {
+      await db.schemaCreateOrUpdate({
+        name: "orders",
+        implementation: "Static",
+        fields: [
+          { name: "paid", type: "Boolean" },
+          { name: "total", type: "Currency" },
+          { name: "placedAt", type: "Datetime" },
+        ],
+      });
+      await db.schemaCreateOrUpdate({
+        name: "lines",
+        implementation: "Static",
+        fields: [
+          { name: "shipped", type: "Boolean" },
+          { name: "price", type: "Decimal" },
+          { name: "status", type: "Enum", options: ["open", "done"] },
+        ],
+      });
+      await db.schemaConnect("orders", "lines");
+    });
+
+    it("should convert values to the types of their fields", async () => {
+      const placedAt = new Date("2024-03-01T10:00:00.000Z");
+      const orderId = await db.insert("orders", {
+        paid: true,
+        total: 12.5,
+        placedAt,
+      });
+      await db.insert("lines", {
+        ordersId: orderId,
+        shipped: false,
+        price: 0.1,
+        status: "open",
+      });
+
+      const orders = await db.query({
+        table: [{ table: "orders" }, { table: "lines" }],
+      });
+      expect(orders).toEqual([
+        {
+          id: orderId,
+          paid: true,
+          total: "12.5",
+          placedAt,
+          lines: [
+            {
+              id: expect.any(Number),
+              ordersId: orderId,
+              shipped: false,
+              price: "0.1",
+              status: "open",
+            },
+          ],
+        },
+      ]);
+
+      // Parents included from the child side are hydrated as well
+      const [line] = await db.query({
+        table: [{ table: "lines" }, { table: "orders", parent: true }],
+      });
+      expect(line.orders.placedAt).toEqual(placedAt);
     });
   });
 
@@ -265,6 +940,27 @@ describe("CoreDB", () => {
       expect(updatedId).toBe(id);
     });
 
+    it("should upsert partial rows by updating the existing row", async () => {
+      const id = await db.insert("users", {
+        name: "John Doe",
+        email: "john@example.com",
+        age: 30,
+      });
+
+      // name is required, so only the existing row can take the age
+      expect(await db.upsert("users", { id, age: 31 })).toBe(id);
+      expect(
+        await db.upsert("users", { email: "john@example.com", age: 32 })
+      ).toBe(id);
+      const users = await db.query({ table: [{ table: "users" }] });
+      expect(users).toHaveLength(1);
+      expect(users[0]).toMatchObject({ name: "John Doe", age: 32 });
+
+      await expect(db.upsert("users", { id: id + 1, age: 40 })).rejects.toThrow(
+        "NOT NULL constraint failed: users.name"
+      );
+    });
+
     it("should delete records", async () => {
       const id1 = await db.insert("users", {
         name: "John Doe",
@@ -280,6 +976,229 @@ describe("CoreDB", () => {
 
       await expect(db.delete("users", [id1, id2])).resolves.not.toThrow();
     });
+
+    it("should upsert on unique and compound unique indexes", async () => {
+      const user = { name: "John Doe", email: "john@example.com", age: 30 };
+      const id = await db.upsert("users", user);
+      expect(await db.upsert("users", { ...user, age: 31 })).toBe(id);
+
+      await db.upsert(
+        "users",
+        { ...user, name: "Johnny", age: 32 },
+        { conflictOn: ["email"], merge: ["age"] }
+      );
+      const users = await db.query({ table: [{ table: "users" }] });
+      expect(users).toHaveLength(1);
+      expect(users[0]).toMatchObject({ name: "John Doe", age: 32 });
+
+      await expect(
+        db.upsert("users", user, { conflictOn: ["name"] })
+      ).rejects.toThrow("Table 'users' has no unique index on (name)");
+      await expect(
+        db.upsert("users", { name: "John", age: 33 }, { conflictOn: ["email"] })
+      ).rejects.toThrow("Upsert of 'users' requires values for (email)");
+
+      await db.schemaCreateOrUpdate({
+        name: "memberships",
+        implementation: "Static",
+        fields: [
+          { name: "team", type: "Text" },
+          { name: "member", type: "Text" },
+          { name: "role", type: "Text" },
+          { name: "createdAt", type: "CreatedAt" },
+        ],
+        compoundIndexes: [{ fields: ["team", "member"], type: "Unique" }],
+      });
+      const membership = { team: "core", member: "ann" };
+      const membershipId = await db.upsert("memberships", {
+        ...membership,
+        role: "dev",
+      });
+      const [created] = await db.query({ table: [{ table: "memberships" }] });
+
+      // Updating keeps the creation time of the existing row
+      expect(
+        await db.upsert("memberships", { ...membership, role: "lead" })
+      ).toBe(membershipId);
+      const [updated] = await db.query({ table: [{ table: "memberships" }] });
+      expect(updated.role).toBe("lead");
+      expect(updated.createdAt).toEqual(created.createdAt);
+    });
+
+    it("should insert many records in chunks", async () => {
+      const users: Record<string, any>[] = Array.from(
+        { length: 25 },
+        (_, i) => ({ name: `User ${i}`, age: 20 + i })
+      );
+      // Rows without an age start a new INSERT, keeping the column default
+      users.push({ name: "No Age" });
+
+      const count = await db.insertMany("users", users, { chunkSize: 10 });
+      expect(count).toBe(26);
+
+      const rows = await db.query({
+        table: [{ table: "users" }],
+        sort: [{ fieldId: "id", direction: "asc" }],
+      });
+      expect(rows.map((r) => r.name)).toEqual(users.map((u) => u.name));
+      expect(rows[25].age).toBeNull();
+    });
+
+    it("should insert nothing when one of many records is invalid", async () => {
+      await expect(
+        db.insertMany("users", [
+          { name: "John Doe", age: 30 },
+          { name: "Jane Doe", age: "old" },
+        ])
+      ).rejects.toThrow("Field 'age' must be an integer");
+      await expect(
+        db.insertMany("users", [
+          { name: "John Doe", email: "same@example.com" },
+          { name: "Jane Doe", email: "same@example.com" },
+        ])
+      ).rejects.toThrow();
+
+      expect(await db.query({ table: [{ table: "users" }] })).toHaveLength(0);
+    });
+
+    it("should update and delete records by condition", async () => {
+      await db.insertMany("users", [
+        { name: "John Doe", age: 30 },
+        { name: "Jane Doe", age: 25 },
+        { name: "Bob Smith", age: 35 },
+      ]);
+      const olderThan = (age: number): Where => ({
+        left: "age",
+        leftType: "Field",
+        cmp: "gte",
+        right: age,
+        rightType: "Value",
+      });
+
+      expect(await db.updateWhere("users", olderThan(30), { age: 40 })).toBe(2);
+      expect(await db.updateWhere("users", olderThan(50), { age: 0 })).toBe(0);
+
+      expect(await db.deleteWhere("users", olderThan(40))).toBe(2);
+      const remaining = await db.query({ table: [{ table: "users" }] });
+      expect(remaining.map((r) => r.name)).toEqual(["Jane Doe"]);
+    });
+
+    it("should store dates written by updates like inserted ones", async () => {
+      await db.schemaCreateOrUpdate({
+        name: "people",
+        implementation: "Static",
+        fields: [
+          { name: "name", type: "Text" as FieldType },
+          { name: "born", type: "Datetime" as FieldType },
+        ],
+      });
+      const born = new Date("1999-01-01T00:00:00.000Z");
+      const inserted = await db.insert("people", { name: "Ann", born });
+      const updated = await db.insert("people", { name: "Bob" });
+      await db.update("people", updated, { born });
+      await db.insert("people", { name: "Cid" });
+      await db.updateWhere(
+        "people",
+        {
+          left: "name",
+          leftType: "Field",
+          cmp: "eq",
+          right: "Cid",
+          rightType: "Value",
+        },
+        { born }
+      );
+
+      const stored = await db.rawQuery("SELECT born FROM people", []);
+      expect(stored.map((r: any) => r.born)).toEqual([
+        born.toISOString(),
+        born.toISOString(),
+        born.toISOString(),
+      ]);
+      const rows = await db.query({
+        table: [{ table: "people" }],
+        query: {
+          left: "born",
+          leftType: "Field",
+          cmp: "eq",
+          right: born,
+          rightType: "Value",
+        },
+      });
+      expect(rows.map((r) => r.name)).toEqual(["Ann", "Bob", "Cid"]);
+      expect(rows[1]).toMatchObject({ id: updated, born });
+      expect(inserted).toBe(rows[0].id);
+    });
+
+    it("should bind variables when updating and deleting by condition", async () => {
+      await db.insertMany("users", [
+        { name: "John Doe", age: 30 },
+        { name: "Jane Doe", age: 25 },
+      ]);
+      const byName: Where = {
+        left: "name",
+        leftType: "Field",
+        cmp: "eq",
+        right: "name",
+        rightType: "Variable",
+      };
+
+      expect(
+        await db.updateWhere("users", byName, { age: 31 }, { name: "John Doe" })
+      ).toBe(1);
+      await expect(
+        db.updateWhere("users", byName, { age: 32 })
+      ).rejects.toThrow("No value given for query variable 'name'");
+      expect(await db.deleteWhere("users", byName, { name: "Jane Doe" })).toBe(
+        1
+      );
+
+      const remaining = await db.query({ table: [{ table: "users" }] });
+      expect(remaining).toMatchObject([{ name: "John Doe", age: 31 }]);
+    });
+
+    it("should return the persisted row on insert and update", async () => {
+      await db.schemaCreateOrUpdate({
+        name: "tasks",
+        implementation: "Static",
+        fields: [
+          { name: "title", type: "Text" },
+          { name: "status", type: "Text", defaultValue: "open" },
+          { name: "done", type: "Boolean" },
+          { name: "createdAt", type: "CreatedAt" },
+        ],
+      });
+
+      const task = await db.insert(
+        "tasks",
+        { title: "Write docs", done: false },
+        { returning: true }
+      );
+      expect(task).toEqual({
+        id: expect.any(Number),
+        title: "Write docs",
+        status: "open",
+        done: false,
+        createdAt: expect.any(Date),
+      });
+
+      const updated = await db.update(
+        "tasks",
+        task.id,
+        { done: true },
+        { returning: true }
+      );
+      expect(updated).toEqual({ ...task, done: true });
+
+      expect(
+        await db.update(
+          "tasks",
+          task.id + 1,
+          { done: true },
+          { returning: true }
+        )
+      ).toBeNull();
+    });
   });
 
   describe("Query Builder", () => {
@@ -407,6 +1326,243 @@ describe("CoreDB", () => {
       expect(result[0].age).toBe(25);
       expect(result[1].age).toBe(30);
     });
+
+    it("should paginate with cursors over the sort keys and id", async () => {
+      await db.insert("users", { name: "Ann Lee", age: 30 });
+      await db.insert("users", { name: "Zed Ray", age: 30 });
+      const query: Query = {
+        table: [{ table: "users" }],
+        field: { users: ["name"] },
+        sort: [{ fieldId: "age", direction: "desc" }],
+        limit: 2,
+      };
+
+      const first = await db.paginate(query);
+      expect(first.items).toEqual([
+        { name: "Bob Smith" },
+        { name: "John Doe" },
+      ]);
+      expect(first.nextCursor).toEqual(expect.any(String));
+
+      // Rows inserted before the cursor do not shift the following pages
+      await db.insert("users", { name: "Old Timer", age: 40 });
+
+      const second = await db.paginate(query, first.nextCursor);
+      expect(second.items.map((u) => u.name)).toEqual(["Ann Lee", "Zed Ray"]);
+
+      const last = await db.paginate(query, second.nextCursor);
+      expect(last.items.map((u) => u.name)).toEqual(["Jane Doe"]);
+      expect(last.nextCursor).toBeNull();
+    });
+
+    it("should stream rows in chunks", async () => {
+      const query: Query = {
+        table: [{ table: "users" }],
+        sort: [{ fieldId: "age", direction: "asc" }],
+      };
+
+      const names: string[] = [];
+      for await (const user of db.stream(query, {}, 2)) {
+        names.push(user.name);
+      }
+      expect(names).toEqual(["Jane Doe", "John Doe", "Bob Smith"]);
+
+      const limited: string[] = [];
+      for await (const user of db.stream({ ...query, limit: 2 }, {}, 1)) {
+        limited.push(user.name);
+      }
+      expect(limited).toEqual(["Jane Doe", "John Doe"]);
+    });
+
+    it("should paginate and stream over NULL sort values", async () => {
+      await db.insert("users", { name: "No Age" });
+      await db.insert("users", { name: "Unknown Age" });
+
+      for (const direction of ["asc", "desc"] as const) {
+        const query: Query = {
+          table: [{ table: "users" }],
+          sort: [{ fieldId: "age", direction }],
+        };
+        const expected = (await db.query(query)).map((u) => u.name);
+        expect(expected).toHaveLength(5);
+
+        const paged: string[] = [];
+        let cursor: string | null = null;
+        do {
+          const page: CursorPage = await db.paginate(
+            { ...query, limit: 1 },
+            cursor
+          );
+          paged.push(...page.items.map((u) => u.name));
+          cursor = page.nextCursor;
+        } while (cursor);
+        expect(paged).toEqual(expected);
+
+        const streamed: string[] = [];
+        for await (const user of db.stream(query, {}, 2)) {
+          streamed.push(user.name);
+        }
+        expect(streamed).toEqual(expected);
+      }
+    });
+
+    it("should stream by decimal sort keys without rounding them", async () => {
+      await db.schemaCreateOrUpdate({
+        name: "rates",
+        implementation: "Static",
+        fields: [{ name: "rate", type: "Decimal" }],
+      });
+      for (const rate of [0.125, 0.128, 0.2]) {
+        await db.insert("rates", { rate });
+      }
+
+      const rates: string[] = [];
+      const query: Query = {
+        table: [{ table: "rates" }],
+        sort: [{ fieldId: "rate", direction: "asc" }],
+      };
+      for await (const row of db.stream(query, {}, 1)) {
+        rates.push(row.rate);
+      }
+      expect(rates).toEqual(["0.125", "0.128", "0.2"]);
+    });
+
+    it("should reject invalid cursors", async () => {
+      const query: Query = { table: [{ table: "users" }], limit: 2 };
+
+      await expect(db.paginate(query, "not a cursor")).rejects.toThrow(
+        "Invalid cursor"
+      );
+      const { nextCursor } = await db.paginate(query);
+      await expect(
+        db.paginate(
+          { ...query, sort: [{ fieldId: "age", direction: "asc" }] },
+          nextCursor
+        )
+      ).rejects.toThrow("does not match the query sort");
+      await expect(
+        db.paginate({ table: [{ table: "users" }] })
+      ).rejects.toThrow("Cursor pagination requires a limit");
+    });
+
+    it("should support null, range and pattern operators", async () => {
+      await db.insert("users", { name: "50%_off!" });
+      await db.insert("users", { name: "50 and more" });
+      const names = async (
+        cmp: WhereCmp["cmp"],
+        left: string,
+        right?: WhereCmp["right"]
+      ) =>
+        (
+          await db.query({
+            table: [{ table: "users" }],
+            query: { left, leftType: "Field", cmp, right, rightType: "Value" },
+            sort: [{ fieldId: "name", direction: "asc" }],
+          })
+        ).map((r) => r.name);
+
+      expect(await names("isNull", "age")).toEqual(["50 and more", "50%_off!"]);
+      expect(await names("isNotNull", "age")).toHaveLength(3);
+      expect(await names("between", "age", [25, 30])).toEqual([
+        "Jane Doe",
+        "John Doe",
+      ]);
+      expect(await names("startsWith", "name", "J")).toEqual([
+        "Jane Doe",
+        "John Doe",
+      ]);
+      expect(await names("startsWith", "name", "50%")).toEqual(["50%_off!"]);
+      expect(await names("endsWith", "name", "Doe")).toEqual([
+        "Jane Doe",
+        "John Doe",
+      ]);
+      expect(await names("endsWith", "name", "_off!")).toEqual(["50%_off!"]);
+      expect(await names("ilike", "name", "SMITH")).toEqual(["Bob Smith"]);
+      await expect(names("between", "age", [25])).rejects.toThrow(
+        "BETWEEN operator requires a [min, max] array value"
+      );
+      await expect(names("regex", "name", "^J")).rejects.toThrow(
+        "The regex operator is not supported on SQLite"
+      );
+    });
+
+    it("should compute aggregates over the filtered rows", async () => {
+      await db.insert("users", { name: "Ann Smith", age: 30 });
+
+      const [result] = await db.query({
+        table: [{ table: "users" }],
+        query: {
+          left: "age",
+          leftType: "Field",
+          cmp: "gte",
+          right: 30,
+          rightType: "Value",
+        },
+        aggregate: [
+          { fn: "count" },
+          { fn: "sum", field: "age" },
+          { fn: "avg", field: "age", as: "averageAge" },
+          { fn: "min", field: "age" },
+          { fn: "max", field: "age" },
+          { fn: "countDistinct", field: "age" },
+        ],
+      });
+
+      expect(result).toEqual({
+        count: 3,
+        sum_age: 95,
+        averageAge: 95 / 3,
+        min_age: 30,
+        max_age: 35,
+        countDistinct_age: 2,
+      });
+    });
+
+    it("should group rows and filter groups with having", async () => {
+      await db.insert("users", { name: "Ann Smith", age: 30 });
+
+      const groups = await db.query({
+        table: [{ table: "users" }],
+        aggregate: [{ fn: "count", as: "users" }],
+        groupFields: ["age"],
+        sort: [{ fieldId: "age", direction: "asc" }],
+      });
+      expect(groups).toEqual([
+        { age: 25, users: 1 },
+        { age: 30, users: 2 },
+        { age: 35, users: 1 },
+      ]);
+
+      const crowded = await db.query({
+        table: [{ table: "users" }],
+        aggregate: [{ fn: "count", as: "users" }],
+        groupFields: ["age"],
+        having: {
+          left: "users",
+          leftType: "Field",
+          cmp: "gt",
+          right: 1,
+          rightType: "Value",
+        },
+      });
+      expect(crowded).toEqual([{ age: 30, users: 2 }]);
+    });
+
+    it("should reject aggregates without a field or with joins", async () => {
+      await expect(
+        db.query({
+          table: [{ table: "users" }],
+          aggregate: [{ fn: "sum" }],
+        })
+      ).rejects.toThrow("Aggregate 'sum' requires a field");
+
+      await expect(
+        db.query({
+          table: [{ table: "users" }, { table: "posts" }],
+          aggregate: [{ fn: "count" }],
+        })
+      ).rejects.toThrow("Aggregate queries cannot join tables");
+    });
   });
 
   describe("Transactions", () => {
@@ -497,6 +1653,127 @@ describe("CoreDB", () => {
       const result = await db.query({ table: [{ table: "users" }] });
       expect(result).toHaveLength(0);
     });
+
+    it("should nest transactions on savepoints", async () => {
+      const tx = await db.startTransaction();
+      await tx.insert("users", { name: "Outer", email: "outer@example.com" });
+
+      const rolledBack = await tx.startTransaction();
+      await rolledBack.insert("users", {
+        name: "Inner",
+        email: "in@example.com",
+      });
+      await rolledBack.rollbackTransaction();
+
+      const committed = await tx.startTransaction();
+      await committed.insert("users", {
+        name: "Kept",
+        email: "kept@example.com",
+      });
+      await committed.commitTransaction();
+
+      await tx.commitTransaction();
+
+      const users = await db.query({ table: [{ table: "users" }] });
+      expect(users.map((u) => u.name)).toEqual(["Outer", "Kept"]);
+    });
+
+    it("should commit or roll back a transaction callback", async () => {
+      const userId = await db.transaction(async (tx) => {
+        const id = await tx.insert("users", {
+          name: "John Doe",
+          email: "john@example.com",
+        });
+        await tx.insert("profiles", { userId: id, bio: "Developer" });
+        return id;
+      });
+      expect(userId).toEqual(expect.any(Number));
+
+      await expect(
+        db.transaction(async (tx) => {
+          await tx.insert("users", { name: "Jane", email: "jane@example.com" });
+          await tx.insert("profiles", { bio: "No user" });
+        })
+      ).rejects.toThrow();
+
+      const users = await db.query({ table: [{ table: "users" }] });
+      expect(users.map((u) => u.name)).toEqual(["John Doe"]);
+    });
+
+    it("should retry a transaction while the database is locked", async () => {
+      const other = new CoreDB(TEST_DB);
+      let locked!: () => void;
+      let unlock!: () => void;
+      const lockTaken = new Promise<void>((resolve) => (locked = resolve));
+      const released = new Promise<void>((resolve) => (unlock = resolve));
+
+      const holding = other.transaction(
+        async (tx) => {
+          await tx.insert("users", { name: "First", email: "1@example.com" });
+          locked();
+          await released;
+        },
+        { mode: "immediate" }
+      );
+      await lockTaken;
+
+      setTimeout(unlock, 50);
+      await db.transaction(
+        async (tx) => {
+          await tx.insert("users", { name: "Second", email: "2@example.com" });
+        },
+        { mode: "immediate", retries: 10, retryDelay: 5 }
+      );
+      await holding;
+      await other.close();
+
+      const users = await db.query({ table: [{ table: "users" }] });
+      expect(users.map((u) => u.name)).toEqual(["First", "Second"]);
+    });
+
+    it("should rebuild referenced tables with foreign keys deferred", async () => {
+      await db.schemaCreateOrUpdate({
+        name: "posts",
+        implementation: "Static",
+        fields: [
+          { name: "title", type: "Text" },
+          {
+            name: "usersId",
+            type: "ReferenceManyToOne" as FieldType,
+            foreignTable: "users",
+          },
+        ],
+      });
+      const usersId = await db.insert("users", {
+        name: "John Doe",
+        email: "john@example.com",
+      });
+      await db.insert("posts", { title: "Hello", usersId });
+
+      // Dropping users in the rebuild would cascade into posts
+      const requiredEmail: TableDefinition = {
+        ...userTableDef,
+        fields: [
+          userTableDef.fields[0],
+          { ...userTableDef.fields[1], required: true },
+        ],
+      };
+      await expect(
+        db.transaction((tx) => tx.schemaCreateOrUpdate(requiredEmail))
+      ).rejects.toThrow("Cannot rebuild table 'users' referenced by 'posts'");
+
+      await db.transaction((tx) => tx.schemaCreateOrUpdate(requiredEmail), {
+        foreignKeys: false,
+      });
+      expect(await db.query({ table: [{ table: "posts" }] })).toHaveLength(1);
+
+      await expect(
+        db.transaction((tx) => tx.delete("users", [usersId]), {
+          foreignKeys: false,
+        })
+      ).rejects.toThrow("Foreign key constraint failed in table(s) 'posts'");
+      expect(await db.query({ table: [{ table: "users" }] })).toHaveLength(1);
+    });
   });
 
   describe("Error Handling", () => {
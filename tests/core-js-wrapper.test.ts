@@ -1,4 +1,5 @@
-import { Wrapper, Cmp } from "../src/core-js-wrapper";
+import { z } from "zod";
+import { Wrapper, Cmp, InferRow } from "../src/core-js-wrapper";
 
 describe("CoreJS Wrapper", () => {
   let db: Wrapper;
@@ -132,6 +133,24 @@ describe("CoreJS Wrapper", () => {
     expect(results).toHaveLength(1);
     expect(results[0].posts).toHaveLength(1);
     expect(results[0].posts[0].title).toBe("Test Post");
+
+    await db.insert("posts", { title: "Second Post", usersId: 1 });
+    const latest = await db
+      .query("users")
+      .where("name", Cmp.Eq, "John Doe")
+      .join("posts", {
+        sort: [{ fieldId: "id", direction: "desc" }],
+        limit: 1,
+      })
+      .execute();
+    expect(latest[0].posts.map((p: any) => p.title)).toEqual(["Second Post"]);
+
+    const counted = await db
+      .query("users")
+      .where("name", Cmp.Eq, "John Doe")
+      .join("posts", { count: true })
+      .execute();
+    expect(counted[0].posts).toBe(2);
   });
 
   it("should support complex queries", async () => {
@@ -154,6 +173,21 @@ describe("CoreJS Wrapper", () => {
     expect(results.length).toBeGreaterThan(0);
     expect(results[0].age).toBeGreaterThanOrEqual(25);
     expect(results[0].age).toBeLessThanOrEqual(35);
+
+    const page = await db.query("users").orderBy("age").limit(1).after();
+    expect(page.items[0].name).toBe("Jane Smith");
+    const next = await db
+      .query("users")
+      .orderBy("age")
+      .limit(1)
+      .after(page.nextCursor);
+    expect(next.items[0].name).toBe("John Doe");
+
+    const ages: number[] = [];
+    for await (const user of db.query("users").orderBy("age").iterate()) {
+      ages.push(user.age);
+    }
+    expect(ages).toEqual([25, 30]);
   });
 
   it("should support filtering nested data with like patterns", async () => {
@@ -236,6 +270,272 @@ describe("CoreJS Wrapper", () => {
     expect(results[0].authors[0].books).toHaveLength(2);
   });
 
+  it("should select columns of the root and joined tables", async () => {
+    const results = await db
+      .query("users")
+      .select("name", "email as contact")
+      .where("name", Cmp.Eq, "John Doe")
+      .join("posts")
+      .select("title")
+      .execute();
+
+    expect(results).toEqual([
+      {
+        name: "John Doe",
+        contact: "john@example.com",
+        posts: [{ title: "Test Post" }, { title: "Second Post" }],
+      },
+    ]);
+  });
+
+  it("should link and unlink many-to-many records", async () => {
+    await db.schema("skills").field("label").type("Text").done().execute();
+    await db
+      .schema("developers")
+      .field("name")
+      .type("Text")
+      .done()
+      .field("skills")
+      .type("ReferenceManyToMany")
+      .reference("skills")
+      .done()
+      .execute();
+
+    const devId = await db.insert("developers", { name: "Ada" });
+    const tsId = await db.insert("skills", { label: "TypeScript" });
+    const sqlId = await db.insert("skills", { label: "SQL" });
+
+    await db.link("developers", devId, "skills", [tsId, sqlId]);
+    await db.unlink("developers", devId, "skills", tsId);
+
+    const results = await db.query("developers").join("skills").execute();
+
+    expect(results).toHaveLength(1);
+    expect(results[0].skills).toHaveLength(1);
+    expect(results[0].skills[0].label).toBe("SQL");
+  });
+
+  it("should return the persisted row on insert and update", async () => {
+    await db
+      .schema("todos")
+      .field("title")
+      .type("Text")
+      .done()
+      .field("done")
+      .type("Boolean")
+      .done()
+      .execute();
+
+    const todo = await db.insert(
+      "todos",
+      { title: "Ship it", done: false },
+      { returning: true }
+    );
+    expect(todo).toEqual({
+      id: expect.any(Number),
+      title: "Ship it",
+      done: false,
+    });
+
+    const updated = await db.update(
+      "todos",
+      todo.id,
+      { done: true },
+      { returning: true }
+    );
+    expect(updated).toEqual({ ...todo, done: true });
+  });
+
+  it("should return booleans from queries", async () => {
+    const results = await db
+      .query("todos")
+      .where("done", Cmp.Eq, true)
+      .execute();
+
+    expect(results).toEqual([
+      { id: expect.any(Number), title: "Ship it", done: true },
+    ]);
+  });
+
+  it("should roll back a transaction callback that throws", async () => {
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.insert("todos", { title: "Discarded", done: false });
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    const discarded = await db
+      .query("todos")
+      .where("title", Cmp.Eq, "Discarded")
+      .count();
+    expect(discarded).toBe(0);
+  });
+
+  it("should validate with zod schemas inside transactions", async () => {
+    await db
+      .schema("accounts")
+      .withZodSchema(z.object({ email: z.string().email() }))
+      .field("email")
+      .type("Text")
+      .done()
+      .execute();
+
+    await expect(
+      db.transaction((tx) => tx.insert("accounts", { email: "not an email" }))
+    ).rejects.toThrow(z.ZodError);
+
+    const tx = await db.startTransaction();
+    const id = await tx.insert("accounts", { email: "ann@example.com" });
+    await expect(tx.update("accounts", id, { email: "nope" })).rejects.toThrow(
+      z.ZodError
+    );
+    await tx.rollbackTransaction();
+  });
+
+  it("should query typed tables", async () => {
+    type Team = { id: number; name: string; founded: number };
+    type Player = {
+      id: number;
+      name: string;
+      active: boolean;
+      teamsId: number;
+    };
+
+    await db
+      .schema("teams")
+      .field("name")
+      .type("Text")
+      .required()
+      .done()
+      .field("founded")
+      .type("Integer")
+      .done()
+      .execute();
+    await db
+      .schema("players")
+      .field("name")
+      .type("Text")
+      .done()
+      .field("active")
+      .type("Boolean")
+      .done()
+      .field("teamsId")
+      .type("ReferenceManyToOne")
+      .reference("teams")
+      .done()
+      .execute();
+
+    const teams = db.table<Team>("teams");
+    const players = db.table<Player>("players");
+
+    const lions = await teams.insert({ name: "Lions", founded: 1990 });
+    await teams.insert({ name: "Tigers", founded: 2001 });
+    await teams.update(lions, { founded: 1991 });
+    await players.insert({ name: "Ann", active: true, teamsId: lions });
+    await players.insert({ name: "Bob", active: false, teamsId: lions });
+
+    const results = await teams
+      .query()
+      .where("founded", "<", 2000)
+      .select("name")
+      .join(
+        "players",
+        players.query().where("active", "=", true).select("name")
+      )
+      .get();
+
+    expect(results).toEqual([{ name: "Lions", players: [{ name: "Ann" }] }]);
+    const names: string[] = results[0].players.map((player) => player.name);
+    expect(names).toEqual(["Ann"]);
+
+    const tigers = await teams
+      .query()
+      .where("name", Cmp.In, ["Tigers"])
+      .first();
+    expect(tigers?.founded).toBe(2001);
+
+    await teams.delete(tigers!.id);
+    expect(await teams.query().orderBy("name").get()).toHaveLength(1);
+
+    expect(() => teams.query().join("players").join("players")).toThrow(
+      "already joins"
+    );
+
+    // @ts-expect-error unknown field
+    teams.query().where("city", "=", "Paris");
+    // @ts-expect-error value of the wrong type
+    teams.query().where("founded", ">", "2000");
+    // @ts-expect-error column that was not selected
+    results[0].founded;
+  });
+
+  it("should type tables by their schema definitions", async () => {
+    const tasksSchema = db
+      .schema("tasks")
+      .field("title")
+      .type("Text")
+      .required()
+      .done()
+      .field("priority")
+      .type("Integer")
+      .done()
+      .field("status")
+      .type("Enum")
+      .options("open", "closed")
+      .required()
+      .done()
+      .field("dueAt")
+      .type("Datetime")
+      .done();
+    await tasksSchema.execute();
+
+    type Task = InferRow<typeof tasksSchema>;
+    const tasks = db.table(tasksSchema);
+
+    const dueAt = new Date("2026-01-01T00:00:00.000Z");
+    const id = await tasks.insert({
+      title: "Write docs",
+      status: "open",
+      dueAt,
+    });
+    await tasks.update(id, { priority: 2 });
+
+    const task: Task | null = await tasks
+      .query()
+      .where("status", "=", "open")
+      .first();
+    expect(task).toEqual({
+      id,
+      title: "Write docs",
+      priority: 2,
+      status: "open",
+      dueAt,
+    });
+
+    // @ts-expect-error not one of the options
+    tasks.query().where("status", "=", "done");
+    // @ts-expect-error title is required
+    const untitled: Task = { id, status: "open" };
+
+    // Options given before the Enum type are kept
+    const labelsSchema = db
+      .schema("labels")
+      .field("color")
+      .options("red", "blue")
+      .type("Enum")
+      .required()
+      .done();
+    type Label = InferRow<typeof labelsSchema>;
+    const label: Label = { id: 1, color: "red" };
+    expect(labelsSchema.build().fields[0]).toMatchObject({
+      type: "Enum",
+      options: ["red", "blue"],
+    });
+    // @ts-expect-error not one of the options
+    const green: Label = { ...label, color: "green" };
+  });
+
   it("should dump schema definition", () => {
     const schema = db
       .schema("test_table")
@@ -1,6 +1,11 @@
-import { CoreDB, FieldType } from "../src/core-db";
+import { CATALOG_TABLE, CoreDB, FieldType } from "../src/core-db";
+import { MIGRATIONS_TABLE, MigrationRunner } from "../src/core-db-migrations";
 import {
   importFromJSON,
+  exportTables,
+  exportTablesStream,
+  generateSQL,
+  listTables,
   SchemaAndDataImport,
   DataOnlyImport,
 } from "../src/core-db-utils";
@@ -228,6 +233,62 @@ describe("Import Functionality", () => {
     }, 1000000);
   });
 
+  describe("Streaming Export", () => {
+    const collect = async (chunks: AsyncIterable<string>) => {
+      let text = "";
+      for await (const chunk of chunks) text += chunk;
+      return text;
+    };
+
+    it("should stream the same output as exportTables", async () => {
+      await db.schemaCreateOrUpdate({
+        name: "notes",
+        implementation: "Static",
+        fields: [{ name: "text", type: "Text" }],
+      });
+      await db.schemaCreateOrUpdate({
+        name: "tags",
+        implementation: "Static",
+        fields: [{ name: "label", type: "Text" }],
+      });
+      for (let i = 1; i <= 3; i++) {
+        await db.insert("notes", { text: `Note ${i}` });
+      }
+
+      const tables = ["notes", "tags", "missing"];
+      for (const includeData of [true, false]) {
+        const data = await exportTables(db, tables, includeData);
+        expect(await collect(exportTablesStream(db, tables, includeData))).toBe(
+          JSON.stringify(data, null, 2)
+        );
+        expect(
+          await collect(exportTablesStream(db, tables, includeData, "sql"))
+        ).toBe(generateSQL(db, data));
+      }
+    });
+
+    it("should leave internal tables out of listings and exports", async () => {
+      await db.schemaCreateOrUpdate({
+        name: "notes",
+        implementation: "Static",
+        fields: [{ name: "text", type: "Text" }],
+      });
+      await new MigrationRunner(db, []).up();
+
+      const names = (await listTables(db)).map((table) => table.name);
+      expect(names).toContain("notes");
+      expect(names).not.toContain(CATALOG_TABLE);
+      expect(names).not.toContain(MIGRATIONS_TABLE);
+
+      const tables = ["notes", CATALOG_TABLE, MIGRATIONS_TABLE];
+      const data = await exportTables(db, tables, true);
+      expect(data.tables.map((table) => table.name)).toEqual(["notes"]);
+      expect(await collect(exportTablesStream(db, tables, true))).toBe(
+        JSON.stringify(data, null, 2)
+      );
+    });
+  });
+
   describe("Error Handling", () => {
     it("should handle invalid import format", async () => {
       const invalidData = { foo: "bar" } as any;
@@ -78,15 +78,33 @@ describe("Query Builder Extended Tests", () => {
     // console.log(pdelete.dump());
     const deleted = await pdelete.delete();
 
-    expect(deleted.length).toBe(2);
-    expect(deleted[0].name).toBe("item1");
-    expect(deleted[1].name).toBe("item2");
+    expect(deleted).toBe(2);
 
     const remaining = await db.query("items").execute();
     expect(remaining.length).toBe(1);
     expect(remaining[0].name).toBe("item3");
   }, 30000);
 
+  test("delete only removes the limited page", async () => {
+    await db.insert("items", {
+      name: "item4",
+      value: 400,
+      score: 65.5,
+      expiry: new Date("2024-09-01"),
+    });
+
+    const deleted = await db
+      .query("items")
+      .orderBy("name", "desc")
+      .limit(1)
+      .delete();
+
+    expect(deleted).toBe(1);
+
+    const remaining = await db.query("items").execute();
+    expect(remaining.map((r) => r.name)).toEqual(["item3"]);
+  }, 30000);
+
   test("first() returns first result", async () => {
     await db.insert("items", {
       name: "item1",
@@ -142,6 +160,18 @@ describe("Query Builder Extended Tests", () => {
     expect(avg).toBeCloseTo(85.3, 1);
   }, 30000);
 
+  test("aggregates respect where clauses", async () => {
+    const query = () => db.query("items").where("value", Cmp.Gte, 200);
+
+    expect(await query().count()).toBe(2);
+    expect(await query().sum("value")).toBe(500);
+    expect(await query().min("value")).toBe(200);
+    expect(await query().max("value")).toBe(300);
+    expect(
+      await db.query("items").where("value", Cmp.Gt, 999).avg("score")
+    ).toBe(0);
+  }, 30000);
+
   test("transaction support", async () => {
     let tx: Wrapper | null = null;
     try {
@@ -1,5 +1,10 @@
 import fs from "fs";
-import { FieldType, QueryPlus, TableDefinitionPlus } from "../src/basetypes";
+import {
+  FieldType,
+  QueryPlus,
+  TableDefinitionPlus,
+  WherePlus,
+} from "../src/basetypes";
 import { SQLDBPlus } from "../src/sql-db-plus";
 import { SQLiteAdapter } from "../src/sqlite-adapter";
 
@@ -58,6 +63,28 @@ describe("SQLDBPlus", () => {
       // This should not throw an error
       await expect(db.createTable(updatedTableDef)).resolves.not.toThrow();
     });
+
+    it("should enforce enum options and limits with CHECK constraints", async () => {
+      await db.createTable({
+        name: "products",
+        fields: [
+          { name: "status", type: "Enum", options: ["draft", "live"] },
+          { name: "price", type: "Currency", minimum: 0, maximum: 100 },
+          { name: "code", type: "Text", minimum: 2 },
+        ],
+      });
+
+      await db.insert("products", { status: "live", price: 10, code: "AB" });
+      await expect(
+        db.insert("products", { status: "gone", price: 10 })
+      ).rejects.toThrow("CHECK constraint failed");
+      await expect(db.insert("products", { price: 101 })).rejects.toThrow(
+        "CHECK constraint failed"
+      );
+      await expect(db.insert("products", { code: "A" })).rejects.toThrow(
+        "CHECK constraint failed"
+      );
+    });
   });
 
   describe("Data Operations", () => {
@@ -117,6 +144,140 @@ describe("SQLDBPlus", () => {
       const results = await db.query(query);
       expect(results.length).toBe(0);
     });
+
+    it("should upsert on a unique column", async () => {
+      const user = { name: "John Doe", email: "john@example.com", age: 30 };
+      const id = await db.upsert("users", user);
+      const sameId = await db.upsert("users", { ...user, age: 31 });
+
+      expect(sameId).toBe(id);
+      const results = await db.query({ table: [{ table: "users" }] });
+      expect(results).toHaveLength(1);
+      expect(results[0].age).toBe(31);
+
+      await db.upsert(
+        "users",
+        { ...user, name: "Johnny", age: 32 },
+        { conflictOn: ["email"], merge: ["age"] }
+      );
+      const [merged] = await db.query({ table: [{ table: "users" }] });
+      expect(merged.name).toBe("John Doe");
+      expect(merged.age).toBe(32);
+
+      await expect(
+        db.upsert("users", user, { conflictOn: ["name"] })
+      ).rejects.toThrow("Table 'users' has no unique index on (name)");
+      await expect(
+        db.upsert("users", { name: "John", age: 33 }, { conflictOn: ["email"] })
+      ).rejects.toThrow("Upsert of 'users' requires values for (email)");
+    });
+
+    it("should upsert partial rows by updating the existing row", async () => {
+      const id = await db.insert("users", {
+        name: "John Doe",
+        email: "john@example.com",
+        age: 30,
+      });
+
+      expect(await db.upsert("users", { id, age: 31 })).toBe(id);
+      expect(
+        await db.upsert("users", { email: "john@example.com", age: 32 })
+      ).toBe(id);
+      const results = await db.query({ table: [{ table: "users" }] });
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ name: "John Doe", age: 32 });
+
+      await expect(db.upsert("users", { id: id + 1, age: 40 })).rejects.toThrow(
+        "NOT NULL constraint failed: users.name"
+      );
+    });
+
+    it("should upsert on a compound unique index", async () => {
+      await db.createTable({
+        name: "memberships",
+        fields: [
+          { name: "team", type: "Text" as FieldType },
+          { name: "member", type: "Text" as FieldType },
+          { name: "role", type: "Text" as FieldType },
+        ],
+        compoundIndexes: [{ fields: ["team", "member"], type: "Unique" }],
+      });
+
+      const id = await db.upsert("memberships", {
+        team: "core",
+        member: "ann",
+        role: "dev",
+      });
+      const sameId = await db.upsert("memberships", {
+        team: "core",
+        member: "ann",
+        role: "lead",
+      });
+
+      expect(sameId).toBe(id);
+      const results = await db.query({ table: [{ table: "memberships" }] });
+      expect(results.map((r) => r.role)).toEqual(["lead"]);
+    });
+
+    it("should return the persisted row on insert and update", async () => {
+      await db.createTable({
+        name: "tasks",
+        fields: [
+          { name: "title", type: "Text" as FieldType },
+          { name: "done", type: "Boolean" as FieldType, defaultValue: "0" },
+          { name: "updatedAt", type: "UpdatedAt" as FieldType },
+        ],
+      });
+
+      const task = await db.insert(
+        "tasks",
+        { title: "Write docs" },
+        { returning: true }
+      );
+      expect(task).toEqual({
+        id: expect.any(Number),
+        title: "Write docs",
+        done: false,
+        updatedAt: expect.any(Date),
+      });
+
+      const updated = await db.update(
+        "tasks",
+        task.id,
+        { done: 1 },
+        { returning: true }
+      );
+      expect(updated).toEqual({
+        ...task,
+        done: true,
+        updatedAt: expect.any(Date),
+      });
+    });
+  });
+
+  describe("Timestamps", () => {
+    it("should stamp CreatedAt and UpdatedAt fields", async () => {
+      await db.createTable({
+        name: "notes",
+        fields: [
+          { name: "body", type: "Text" },
+          { name: "createdAt", type: "CreatedAt" },
+          { name: "updatedAt", type: "UpdatedAt" },
+        ],
+      });
+
+      const id = await db.insert("notes", { body: "first" });
+      const [created] = await db.rawQuery("SELECT * FROM notes", []);
+      expect(new Date(created.createdAt).toISOString()).toBe(created.createdAt);
+      expect(created.updatedAt).toBe(created.createdAt);
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await db.update("notes", id, { body: "second" });
+
+      const [updated] = await db.rawQuery("SELECT * FROM notes", []);
+      expect(updated.createdAt).toBe(created.createdAt);
+      expect(updated.updatedAt > created.updatedAt).toBe(true);
+    });
   });
 
   describe("Query Operations", () => {
@@ -159,6 +320,68 @@ describe("SQLDBPlus", () => {
       expect(results.length).toBe(3);
     });
 
+    it("should convert values to the types of their fields", async () => {
+      await db.createTable({
+        name: "orders",
+        fields: [
+          { name: "paid", type: "Boolean" as FieldType },
+          { name: "total", type: "Currency" as FieldType },
+          { name: "placedAt", type: "Datetime" as FieldType },
+        ],
+      });
+      const placedAt = "2024-03-01T10:00:00.000Z";
+      await db.insert("orders", { paid: 1, total: 12.5, placedAt });
+
+      const results = await db.query({ table: [{ table: "orders" }] });
+      expect(results).toEqual([
+        { id: 1, paid: true, total: "12.5", placedAt: new Date(placedAt) },
+      ]);
+    });
+
+    it("should convert values of databases opened again", async () => {
+      await db.createTable({
+        name: "rates",
+        fields: [
+          { name: "active", type: "Boolean" as FieldType },
+          { name: "rate", type: "Decimal" as FieldType },
+        ],
+      });
+      await db.insert("rates", { active: 1, rate: 0.125 });
+      await db.close();
+      await sqliteAdapter.close();
+
+      sqliteAdapter = new SQLiteAdapter(TEST_DB);
+      db = new SQLDBPlus(sqliteAdapter);
+      await db.schemaRename("rates", "fees");
+      const results = await db.query({ table: [{ table: "fees" }] });
+      expect(results).toEqual([{ id: 1, active: true, rate: "0.125" }]);
+    });
+
+    it("should convert joined values by the table defining them", async () => {
+      await db.createTable({
+        name: "badges",
+        fields: [
+          { name: "active", type: "Boolean" as FieldType },
+          { name: "visible", type: "Boolean" as FieldType },
+        ],
+      });
+      await db.createTable({
+        name: "levels",
+        fields: [
+          { name: "active", type: "Integer" as FieldType },
+          { name: "cost", type: "Decimal" as FieldType },
+        ],
+      });
+      await db.insert("badges", { active: 1, visible: 0 });
+      await db.insert("levels", { active: 5, cost: 2.5 });
+
+      const [row] = await db.query({
+        table: [{ table: "badges" }, { table: "levels" }],
+      });
+      // Both tables define active, so it is not converted to a boolean
+      expect(row).toMatchObject({ active: 5, visible: false, cost: "2.5" });
+    });
+
     it("should query with sorting", async () => {
       const query: QueryPlus = {
         table: [{ table: "users" }],
@@ -212,6 +435,48 @@ describe("SQLDBPlus", () => {
       expect(results[0].name).toBe("John Doe");
     });
 
+    it("should support null, range and pattern operators", async () => {
+      await db.insert("users", { name: "50%_off!" });
+      await db.insert("users", { name: "50 and more" });
+      const names = async (query: WherePlus) =>
+        (
+          await db.query({
+            table: [{ table: "users", query }],
+            sort: [{ fieldId: "name", direction: "asc" }],
+          })
+        ).map((r) => r.name);
+
+      expect(await names({ field: "age", cmp: "isNull" })).toEqual([
+        "50 and more",
+        "50%_off!",
+      ]);
+      expect(await names({ field: "age", cmp: "isNotNull" })).toHaveLength(3);
+      expect(
+        await names({ field: "age", cmp: "between", value: [25, 30] })
+      ).toEqual(["Jane Smith", "John Doe"]);
+      expect(
+        await names({ field: "name", cmp: "startsWith", value: "J" })
+      ).toEqual(["Jane Smith", "John Doe"]);
+      expect(
+        await names({ field: "name", cmp: "startsWith", value: "50%" })
+      ).toEqual(["50%_off!"]);
+      expect(
+        await names({ field: "name", cmp: "endsWith", value: "son" })
+      ).toEqual(["Bob Johnson"]);
+      expect(
+        await names({ field: "name", cmp: "endsWith", value: "_off!" })
+      ).toEqual(["50%_off!"]);
+      expect(
+        await names({ field: "name", cmp: "ilike", value: "JOHN" })
+      ).toEqual(["Bob Johnson", "John Doe"]);
+      await expect(
+        names({ field: "age", cmp: "between", value: [25] })
+      ).rejects.toThrow("BETWEEN operator requires a [min, max] array value");
+      await expect(
+        names({ field: "name", cmp: "regex", value: "^J" })
+      ).rejects.toThrow("The regex operator is not supported on SQLite");
+    });
+
     it("should query with field selection", async () => {
       const query: QueryPlus = {
         table: [{ table: "users" }],
@@ -289,5 +554,45 @@ describe("SQLDBPlus", () => {
       const results = await db.query(query);
       expect(results.length).toBe(0);
     });
+
+    it("should nest transactions on savepoints", async () => {
+      await db.startTransaction();
+      await db.insert("users", { name: "Outer", email: "outer@example.com" });
+
+      await db.startTransaction();
+      await db.insert("users", { name: "Inner", email: "in@example.com" });
+      await db.rollbackTransaction();
+
+      await db.startTransaction();
+      await db.insert("users", { name: "Kept", email: "kept@example.com" });
+      await db.commitTransaction();
+
+      await db.commitTransaction();
+      await expect(db.commitTransaction()).rejects.toThrow(
+        "Not in a transaction"
+      );
+
+      const results = await db.query({ table: [{ table: "users" }] });
+      expect(results.map((r) => r.name)).toEqual(["Outer", "Kept"]);
+    });
+
+    it("should commit or roll back a transaction callback", async () => {
+      const id = await db.transaction(
+        (tx) =>
+          tx.insert("users", { name: "John Doe", email: "john@example.com" }),
+        { mode: "immediate" }
+      );
+      expect(id).toBeGreaterThan(0);
+
+      await expect(
+        db.transaction(async (tx) => {
+          await tx.insert("users", { name: "Jane", email: "jane@example.com" });
+          await tx.insert("users", { name: "Copy", email: "john@example.com" });
+        })
+      ).rejects.toThrow("UNIQUE constraint failed");
+
+      const results = await db.query({ table: [{ table: "users" }] });
+      expect(results.map((r) => r.name)).toEqual(["John Doe"]);
+    });
   });
 });
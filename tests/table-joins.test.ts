@@ -1,4 +1,4 @@
-import { CoreDB, TableDefinition } from "../src/core-db";
+import { CoreDB, Query, TableDefinition } from "../src/core-db";
 import fs from "fs";
 
 describe("Table Joins", () => {
@@ -104,6 +104,138 @@ describe("Table Joins", () => {
       expect(tolkien.books).toHaveLength(2);
     });
 
+    it("should select only the projected columns on every level", async () => {
+      const results = await db.query({
+        table: [{ table: "authors" }, { table: "books" }],
+        field: {
+          authors: ["name"],
+          books: ["title as bookTitle", "year"],
+        },
+        sort: [{ fieldId: "name", direction: "asc" }],
+      });
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toEqual({
+        name: "J.R.R. Tolkien",
+        books: [
+          { bookTitle: "The Hobbit", year: 1937 },
+          { bookTitle: "The Fellowship of the Ring", year: 1954 },
+        ],
+      });
+    });
+
+    it("should keep all columns of tables without a projection", async () => {
+      const results = await db.query({
+        table: [{ table: "authors" }, { table: "books" }],
+        field: { books: ["id", "title"] },
+        query: {
+          left: "name",
+          leftType: "Field",
+          cmp: "eq",
+          right: "J.R.R. Tolkien",
+          rightType: "Value",
+        },
+      });
+
+      expect(Object.keys(results[0]).sort()).toEqual([
+        "books",
+        "country",
+        "id",
+        "name",
+      ]);
+      expect(Object.keys(results[0].books[0]).sort()).toEqual(["id", "title"]);
+    });
+
+    it("should sort and limit the children of each parent", async () => {
+      const results = await db.query({
+        table: [
+          { table: "authors" },
+          {
+            table: "books",
+            sort: [{ fieldId: "year", direction: "desc" }],
+            limit: 2,
+          },
+        ],
+        field: { books: ["title"] },
+        sort: [{ fieldId: "name", direction: "asc" }],
+      });
+
+      expect(results.map((a) => a.books.map((b: any) => b.title))).toEqual([
+        ["The Fellowship of the Ring", "The Hobbit"],
+        ["IT", "The Stand"],
+      ]);
+    });
+
+    it("should page the children of each parent with an offset", async () => {
+      const results = await db.query({
+        table: [
+          { table: "authors" },
+          {
+            table: "books",
+            sort: [{ fieldId: "year", direction: "asc" }],
+            offset: 1,
+            limit: 1,
+          },
+        ],
+        sort: [{ fieldId: "name", direction: "asc" }],
+      });
+
+      expect(results[0].books.map((b: any) => b.title)).toEqual([
+        "The Fellowship of the Ring",
+      ]);
+      expect(results[1].books.map((b: any) => b.title)).toEqual(["The Stand"]);
+      expect(results[1].books[0]).not.toHaveProperty("__rowNumber");
+    });
+
+    it("should count the children of each parent", async () => {
+      await db.insert("authors", { name: "Unpublished", country: "FR" });
+
+      const results = await db.query({
+        table: [
+          { table: "authors" },
+          {
+            table: "books",
+            count: true,
+            query: {
+              left: "genre",
+              leftType: "Field",
+              cmp: "eq",
+              right: "horror",
+              rightType: "Value",
+            },
+          },
+        ],
+        sort: [{ fieldId: "name", direction: "asc" }],
+      });
+
+      expect(results.map((a) => [a.name, a.books])).toEqual([
+        ["J.R.R. Tolkien", 0],
+        ["Stephen King", 2],
+        ["Unpublished", 0],
+      ]);
+    });
+
+    it("should reject joins below a counted table", async () => {
+      await db.schemaCreateOrUpdate({
+        name: "reviews",
+        implementation: "Static",
+        fields: [{ name: "text", type: "Text" }],
+      });
+      await db.schemaConnect("books", "reviews");
+
+      await expect(
+        db.query({
+          table: [
+            { table: "authors" },
+            { table: "books", count: true },
+            { table: "reviews" },
+          ],
+        })
+      ).rejects.toThrow(
+        "Table 'books' is only counted and cannot have joined tables"
+      );
+    });
+
     it("should filter parent records", async () => {
       const results = await db.query({
         table: [{ table: "authors" }, { table: "books" }],
@@ -329,6 +461,433 @@ describe("Table Joins", () => {
     });
   });
 
+  describe("Field and Variable Comparisons", () => {
+    beforeEach(async () => {
+      await db.schemaCreateOrUpdate({
+        name: "projects",
+        implementation: "Static",
+        fields: [
+          { name: "name", type: "Text", required: true },
+          { name: "budget", type: "Integer" },
+        ],
+      });
+      await db.schemaCreateOrUpdate({
+        name: "tasks",
+        implementation: "Static",
+        fields: [
+          { name: "name", type: "Text", required: true },
+          { name: "price", type: "Integer" },
+          { name: "estimate", type: "Integer" },
+        ],
+      });
+      await db.schemaConnect("projects", "tasks");
+
+      const small = await db.insert("projects", { name: "Small", budget: 50 });
+      const large = await db.insert("projects", { name: "Large", budget: 500 });
+      await db.insert("tasks", {
+        name: "Design",
+        price: 80,
+        estimate: 100,
+        projectsId: small,
+      });
+      await db.insert("tasks", {
+        name: "Build",
+        price: 120,
+        estimate: 100,
+        projectsId: small,
+      });
+      await db.insert("tasks", {
+        name: "Launch",
+        price: 300,
+        estimate: 200,
+        projectsId: large,
+      });
+    });
+
+    it("should compare two fields of the same row", async () => {
+      const results = await db.query({
+        table: [{ table: "tasks" }],
+        query: {
+          left: "price",
+          leftType: "Field",
+          cmp: "gt",
+          right: "estimate",
+          rightType: "Field",
+        },
+        sort: [{ fieldId: "name", direction: "asc" }],
+      });
+
+      expect(results.map((r) => r.name)).toEqual(["Build", "Launch"]);
+    });
+
+    it("should compare child fields with parent fields", async () => {
+      const results = await db.query({
+        table: [
+          { table: "projects" },
+          {
+            table: "tasks",
+            query: {
+              left: "price",
+              leftType: "Field",
+              cmp: "gt",
+              right: "projects.budget",
+              rightType: "Field",
+            },
+          },
+        ],
+        sort: [{ fieldId: "name", direction: "asc" }],
+      });
+
+      expect(results.map((r) => r.name)).toEqual(["Large", "Small"]);
+      expect(results[0].tasks).toHaveLength(0);
+      expect(results[1].tasks.map((t: any) => t.name)).toEqual([
+        "Design",
+        "Build",
+      ]);
+      // Parent columns are only used for filtering
+      expect(results[1].tasks[0]).toEqual({
+        id: 1,
+        name: "Design",
+        price: 80,
+        estimate: 100,
+        projectsId: 1,
+      });
+    });
+
+    it("should resolve variables from the query parameters", async () => {
+      const query: Query = {
+        table: [{ table: "tasks" }],
+        query: {
+          left: "price",
+          leftType: "Field",
+          cmp: "gte",
+          right: "minPrice",
+          rightType: "Variable",
+        },
+      };
+
+      expect(await db.query(query, { minPrice: 100 })).toHaveLength(2);
+      expect(await db.query(query, { minPrice: 250 })).toHaveLength(1);
+      await expect(db.query(query)).rejects.toThrow(
+        "No value given for query variable 'minPrice'"
+      );
+    });
+
+    it("should reject list operators between fields", async () => {
+      await expect(
+        db.query({
+          table: [{ table: "tasks" }],
+          query: {
+            left: "price",
+            leftType: "Field",
+            cmp: "in",
+            right: "estimate",
+            rightType: "Field",
+          },
+        })
+      ).rejects.toThrow("Operator 'in' cannot compare two fields");
+    });
+  });
+
+  describe("Reverse Includes and Explicit Join Columns", () => {
+    let kingId: number;
+    let tolkienId: number;
+
+    beforeEach(async () => {
+      await db.schemaCreateOrUpdate({
+        name: "publishers",
+        implementation: "Static",
+        fields: [{ name: "name", type: "Text", required: true }],
+      });
+      await db.schemaCreateOrUpdate({
+        name: "authors",
+        implementation: "Static",
+        fields: [{ name: "name", type: "Text", required: true }],
+      });
+      await db.schemaConnect("publishers", "authors");
+      // The foreign key does not follow the '<table>Id' naming convention
+      await db.schemaCreateOrUpdate({
+        name: "books",
+        implementation: "Static",
+        fields: [
+          { name: "title", type: "Text", required: true },
+          {
+            name: "writer",
+            type: "ReferenceManyToOne",
+            foreignTable: "authors",
+          },
+        ],
+      });
+
+      const vikingId = await db.insert("publishers", { name: "Viking" });
+      kingId = await db.insert("authors", {
+        name: "Stephen King",
+        publishersId: vikingId,
+      });
+      tolkienId = await db.insert("authors", { name: "J.R.R. Tolkien" });
+      await db.insert("books", { title: "IT", writer: kingId });
+      await db.insert("books", { title: "The Hobbit", writer: tolkienId });
+      await db.insert("books", { title: "Anonymous" });
+    });
+
+    it("should embed the parent row following a ReferenceManyToOne field", async () => {
+      const results = await db.query({
+        table: [{ table: "books" }, { table: "authors", parent: true }],
+        field: { books: ["title"], authors: ["name"] },
+        sort: [{ fieldId: "title", direction: "asc" }],
+      });
+
+      expect(results).toEqual([
+        { title: "Anonymous", authors: null },
+        { title: "IT", authors: { name: "Stephen King" } },
+        { title: "The Hobbit", authors: { name: "J.R.R. Tolkien" } },
+      ]);
+    });
+
+    it("should follow parents over several levels", async () => {
+      const results = await db.query({
+        table: [
+          { table: "books" },
+          { table: "authors", parent: true },
+          { table: "publishers", parent: true },
+        ],
+        field: { books: ["title"], authors: ["name"], publishers: ["name"] },
+        sort: [{ fieldId: "title", direction: "asc" }],
+      });
+
+      expect(results[1]).toEqual({
+        title: "IT",
+        authors: { name: "Stephen King", publishers: { name: "Viking" } },
+      });
+      expect(results[2].authors.publishers).toBeNull();
+    });
+
+    it("should return null for parents filtered out", async () => {
+      const results = await db.query({
+        table: [
+          { table: "books" },
+          {
+            table: "authors",
+            parent: true,
+            query: {
+              left: "name",
+              leftType: "Field",
+              cmp: "eq",
+              right: "Stephen King",
+              rightType: "Value",
+            },
+          },
+        ],
+        sort: [{ fieldId: "title", direction: "asc" }],
+      });
+
+      expect(results.map((b) => b.authors?.name ?? null)).toEqual([
+        null,
+        "Stephen King",
+        null,
+      ]);
+    });
+
+    it("should follow foreign keys that are not cataloged", async () => {
+      await db.rawQuery(
+        "CREATE TABLE quotes (id INTEGER PRIMARY KEY, text TEXT, source INTEGER REFERENCES authors(id))",
+        []
+      );
+      await db.rawQuery("INSERT INTO quotes (text, source) VALUES (?, ?)", [
+        "Not all those who wander are lost",
+        tolkienId,
+      ]);
+
+      const [quote] = await db.query({
+        table: [{ table: "quotes" }, { table: "authors", parent: true }],
+      });
+      expect(quote.authors.name).toBe("J.R.R. Tolkien");
+
+      const authors = await db.query({
+        table: [{ table: "authors" }, { table: "quotes" }],
+        sort: [{ fieldId: "name", direction: "asc" }],
+      });
+      expect(authors[0].quotes).toHaveLength(1);
+    });
+
+    it("should join children on an explicit foreign key column", async () => {
+      const results = await db.query({
+        table: [{ table: "authors" }, { table: "books", foreignKey: "writer" }],
+        field: { authors: ["name"], books: ["title"] },
+        sort: [{ fieldId: "name", direction: "asc" }],
+      });
+
+      expect(results).toEqual([
+        { name: "J.R.R. Tolkien", books: [{ title: "The Hobbit" }] },
+        { name: "Stephen King", books: [{ title: "IT" }] },
+      ]);
+    });
+
+    it("should reject unknown join columns", async () => {
+      await expect(
+        db.query({
+          table: [
+            { table: "authors" },
+            { table: "books", foreignKey: "editor" },
+          ],
+        })
+      ).rejects.toThrow("Join column 'editor' not found in table 'books'");
+      await expect(
+        db.query({
+          table: [{ table: "publishers" }, { table: "authors", parent: true }],
+        })
+      ).rejects.toThrow(/No foreign key connection found/);
+    });
+  });
+
+  describe("Batched Child Queries", () => {
+    const AUTHORS = 300;
+    const BOOKS_PER_AUTHOR = 3;
+    const REVIEWS_PER_BOOK = 2;
+
+    // Multi-row INSERTs keep seeding a few thousand rows fast
+    async function bulkInsert(table: string, rows: Record<string, any>[]) {
+      for (let i = 0; i < rows.length; i += 100) {
+        const chunk = rows.slice(i, i + 100);
+        const columns = Object.keys(chunk[0]);
+        const values = chunk
+          .map(() => `(${columns.map(() => "?").join(", ")})`)
+          .join(", ");
+        await db.rawQuery(
+          `INSERT INTO ${table} (${columns.join(", ")}) VALUES ${values}`,
+          chunk.flatMap((row) => columns.map((c) => row[c]))
+        );
+      }
+    }
+
+    beforeEach(async () => {
+      for (const name of ["authors", "books", "reviews"]) {
+        await db.schemaCreateOrUpdate({
+          name,
+          implementation: "Static",
+          fields: [{ name: "name", type: "Text", required: true }],
+        });
+      }
+      await db.schemaConnect("authors", "books");
+      await db.schemaConnect("books", "reviews");
+
+      const ids = (n: number) => Array.from({ length: n }, (_, i) => i + 1);
+      await bulkInsert(
+        "authors",
+        ids(AUTHORS).map((id) => ({ id, name: `Author ${id}` }))
+      );
+      await bulkInsert(
+        "books",
+        ids(AUTHORS * BOOKS_PER_AUTHOR).map((id) => ({
+          id,
+          name: `Book ${id}`,
+          authorsId: Math.ceil(id / BOOKS_PER_AUTHOR),
+        }))
+      );
+      await bulkInsert(
+        "reviews",
+        ids(AUTHORS * BOOKS_PER_AUTHOR * REVIEWS_PER_BOOK).map((id) => ({
+          id,
+          name: `Review ${id}`,
+          booksId: Math.ceil(id / REVIEWS_PER_BOOK),
+        }))
+      );
+    });
+
+    it("should nest every level with one query per level", async () => {
+      const statements: string[] = [];
+      const knex = (db as any).knexInstance;
+      const onQuery = (q: { sql: string }) => statements.push(q.sql);
+      knex.on("query", onQuery);
+
+      let results: any[];
+      try {
+        results = await db.query({
+          table: [
+            { table: "authors" },
+            { table: "books" },
+            { table: "reviews" },
+          ],
+        });
+      } finally {
+        knex.removeListener("query", onQuery);
+      }
+
+      const selectsFrom = (table: string) =>
+        statements.filter((sql) =>
+          new RegExp(`^select .* from [\`"]${table}[\`"]`).test(sql)
+        ).length;
+      expect(selectsFrom("books")).toBe(1);
+      expect(selectsFrom("reviews")).toBe(
+        Math.ceil((AUTHORS * BOOKS_PER_AUTHOR) / 500)
+      );
+
+      expect(results).toHaveLength(AUTHORS);
+      expect(results[0]).toEqual({
+        id: 1,
+        name: "Author 1",
+        books: [1, 2, 3].map((bookId) => ({
+          id: bookId,
+          name: `Book ${bookId}`,
+          authorsId: 1,
+          reviews: [bookId * 2 - 1, bookId * 2].map((reviewId) => ({
+            id: reviewId,
+            name: `Review ${reviewId}`,
+            booksId: bookId,
+          })),
+        })),
+      });
+      expect(results[AUTHORS - 1].books[2].reviews[1].id).toBe(
+        AUTHORS * BOOKS_PER_AUTHOR * REVIEWS_PER_BOOK
+      );
+    });
+
+    it("should run fewer statements than querying children per parent row", async () => {
+      const query = {
+        table: [{ table: "authors" }, { table: "books" }, { table: "reviews" }],
+      };
+      const knex = (db as any).knexInstance;
+      const countStatements = async (load: () => Promise<void>) => {
+        let count = 0;
+        const onQuery = () => count++;
+        knex.on("query", onQuery);
+        try {
+          await load();
+        } finally {
+          knex.removeListener("query", onQuery);
+        }
+        return count;
+      };
+
+      let batched: any[] = [];
+      const batchedStatements = await countStatements(async () => {
+        batched = await db.query(query);
+      });
+
+      // The previous strategy: one query per parent row at every level
+      let authors: any[] = [];
+      const perRowStatements = await countStatements(async () => {
+        authors = await db.rawQuery("SELECT * FROM authors", []);
+        for (const author of authors) {
+          author.books = await db.rawQuery(
+            "SELECT * FROM books WHERE authorsId = ?",
+            [author.id]
+          );
+          for (const book of author.books) {
+            book.reviews = await db.rawQuery(
+              "SELECT * FROM reviews WHERE booksId = ?",
+              [book.id]
+            );
+          }
+        }
+      });
+
+      expect(batched).toEqual(authors);
+      expect(perRowStatements).toBe(1 + AUTHORS + AUTHORS * BOOKS_PER_AUTHOR);
+      expect(batchedStatements).toBeLessThan(AUTHORS);
+    });
+  });
+
   describe("Error Cases", () => {
     it("should throw error when tables are not properly connected", async () => {
       await db.schemaCreateOrUpdate({